@@ -1,89 +1,67 @@
 "use server";
 
-import { Config, configSchema, explanationsSchema, Result } from "@/lib/types";
-import { Client } from "pg";
+import {
+  Config,
+  configSchema,
+  ConversationTurn,
+  EditorTable,
+  HistoryEntry,
+  QueryExplanation,
+  QueryAttempt,
+  QueryError,
+  QueryResult,
+  RepairedQueryResult,
+  Result,
+  ResultField,
+  ResultPageRequest,
+} from "@/lib/types";
 import { generateObject, generateText } from "ai"; // ✅ import both functions
 import { z } from "zod";
-import { createOpenAI } from "@ai-sdk/openai";
-
-// ✅ Groq model with proper baseURL and error handling
-const getGroqModel = () => {
-  if (!process.env.GROQ_API_KEY) {
-    throw new Error("Groq API key is not configured. Please set GROQ_API_KEY in your .env file.");
-  }
-
-  try {
-    const baseURL = "https://api.groq.com/openai/v1";
-    console.log("Calling GROQ API with endpoint:", baseURL);
-    console.log("Using model:", "llama3-70b-8192");
-
-    const groq = createOpenAI({
-      apiKey: process.env.GROQ_API_KEY,
-      baseURL,
-      defaultHeaders: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-      },
-      timeout: 30000,
-    });
-
-    return groq.chat("llama3-70b-8192");
-  } catch (e) {
-    if (e.message.includes("quota") || e.message.includes("billing")) {
-      throw new Error("Groq API quota exceeded. Please check your billing details or use a different API key.");
-    }
-    throw e;
-  }
-};
-
-// ✅ OpenAI model
-const getOpenAIModel = () => {
-  if (!process.env.GROQ_API_KEY) {
-    throw new Error("Groq API key is not configured. Please set GROQ_API_KEY in your .env file.");
-  }
-
-  try {
-    const baseURL = "https://api.groq.com/openai/v1";
-    const groq = createOpenAI({
-      apiKey: process.env.GROQ_API_KEY,
-      baseURL,
-      defaultHeaders: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-      },
-      timeout: 30000,
-    });
-    return groq;
-  } catch (e) {
-    if (e.message.includes("quota") || e.message.includes("billing")) {
-      throw new Error("Groq API quota exceeded. Please check your billing details or use a different API key.");
-    }
-    throw e;
-  }
-};
+import { getModel, toModelError } from "@/lib/models";
+import { sqlGenerationPrompt } from "@/lib/prompts";
+import { checkReferencedTables, validateSql } from "@/lib/sql-validator";
+import {
+  explainReadOnlyQuery,
+  getQueryLimits,
+  QueryLimits,
+  runReadOnlyQuery,
+} from "@/lib/query-runner";
+import { ensureDatabaseReady, withClient } from "@/lib/db";
+import { buildSchemaPrompt, getSourceSchema } from "@/lib/schema";
+import {
+  DataSource,
+  getDataSource,
+  getDataSources,
+  toDataSourceInfo,
+} from "@/lib/data-sources";
+import { cleanQuery, readPositiveInt } from "@/lib/utils";
+import { getHistoryEntry, recordRun, searchHistory } from "@/lib/history";
+import { saveQuery, updateSavedQuery } from "@/lib/saved-queries";
+import { validateChartConfig } from "@/lib/chart-config";
+import { recommendChart } from "@/lib/chart-recommender";
+import { splitClauses } from "@/lib/sql-clauses";
+import {
+  addDashboard,
+  addTile,
+  getDashboard,
+  getDashboards,
+  updateDashboardTiles,
+} from "@/lib/dashboards";
 
 // ✅ Generate SQL query
-export const generateQuery = async (input: string) => {
+export const generateQuery = async (
+  input: string,
+  sourceId?: string,
+  history: ConversationTurn[] = [],
+) => {
   "use server";
   try {
     console.log('Starting query generation for input:', input);
-    const groq = getGroqModel();
-    console.log('Groq model initialized successfully');
+    const schema = await getSourceSchema(sourceId);
     const result = await generateText({
-      model: groq,
-      system: `You are a SQL (postgres) expert. Generate a SQL query to answer the user's question about unicorn companies. The table schema is:
-      unicorns (
-        id SERIAL PRIMARY KEY,
-        company VARCHAR(255) NOT NULL UNIQUE,
-        valuation DECIMAL(10, 2) NOT NULL,
-        date_joined DATE,
-        country VARCHAR(255) NOT NULL,
-        city VARCHAR(255) NOT NULL,
-        industry VARCHAR(255) NOT NULL,
-        select_investors TEXT NOT NULL
-      )`,
-      prompt: `Generate a SQL query for: ${input}. Return ONLY the SQL query with no additional text or explanation.`,
-      max_tokens: 500,
+      model: getModel("sql"),
+      ...sqlGenerationPrompt(input, schema, history),
+      maxTokens: 500,
       temperature: 0.7,
     });
 
@@ -91,193 +69,307 @@ export const generateQuery = async (input: string) => {
       console.log('Successfully generated SQL query:', result.text);
       return result.text;
     }
+    if (schema.tables.length === 0) {
+      throw new Error('The selected data source has no tables to query');
+    }
     console.log('No text in result, returning default query');
-    return "SELECT * FROM unicorns LIMIT 10";
+    const [firstTable] = schema.tables;
+    return `SELECT * FROM ${firstTable.schema}.${firstTable.name} LIMIT 10`;
   } catch (e) {
     console.error('Error in generateQuery:', e);
-    throw new Error(`Failed to generate query: ${e.message}`);
+    throw new Error(`Failed to generate query: ${toModelError(e).message}`);
   }
 };
 
-// ✅ Run query
-export const runGenerateSQLQuery = async (query: string) => {
-  "use server";
+// Runs the safety checks, then confirms every referenced table is available
+// in the data source
+const validateForSource = async (query: string, sourceId?: string) => {
+  const validation = validateSql(query);
+  if (!validation.valid) return validation;
+
+  const source = getDataSource(sourceId);
+  const schema = await getSourceSchema(source.id);
+  const issues = checkReferencedTables(validation.tables ?? [], schema, source.schemas);
+  return issues.length > 0 ? { ...validation, valid: false, issues } : validation;
+};
 
-  // Clean and validate the query
-  const cleanedQuery = query.trim().replace(/;+$/, '');
-  const queryLower = cleanedQuery.toLowerCase();
-  console.log("Generated SQL query:", queryLower);
-  if (!queryLower.startsWith("select")) {
-    throw new Error("Only SELECT queries are allowed");
+// Validates and executes one query, reporting failures as data so callers can
+// decide whether to retry
+const attemptQuery = async (
+  query: string,
+  source: DataSource,
+  limits: QueryLimits,
+  page?: ResultPageRequest,
+): Promise<{ result: QueryResult } | { error: QueryError }> => {
+  const validation = await validateForSource(query, source.id);
+  if (!validation.valid) {
+    return {
+      error: {
+        message: `Query failed safety checks: ${validation.issues.map((issue) => issue.message).join(" ")}`,
+        issues: validation.issues,
+      },
+    };
   }
 
-  // More comprehensive check for forbidden operations
-  const forbiddenOps = ['drop', 'delete', 'insert', 'update', 'alter', 
-                       'truncate', 'create', 'grant', 'revoke', 'execute',
-                       'merge', 'lock', 'comment', 'explain'];
-  
-  if (forbiddenOps.some(op => queryLower.includes(op))) {
-    throw new Error(`Query contains forbidden operation: ${cleanedQuery}`);
+  try {
+    console.log("Executing SQL query:", query);
+    const start = Date.now();
+    const result = await withClient(source.id, (client) =>
+      runReadOnlyQuery(client, query, limits, source.schemas, page),
+    );
+    console.log(`Query executed in ${Date.now() - start}ms, rows returned:`, result.rows.length, result.truncated ? '(truncated)' : '');
+    return { result };
+  } catch (e: any) {
+    console.error('Database operation failed:', e);
+    return { error: { code: typeof e.code === 'string' ? e.code : undefined, message: e.message } };
   }
+};
 
-  // Check if query uses regexp_split_part and validate data format
-  if (queryLower.includes('regexp_split_part')) {
-    console.log('Detected regexp_split_part query, validating data format');
-    const testQuery = "SELECT select_investors FROM unicorns WHERE select_investors LIKE '%,%' LIMIT 1";
-    const client = new Client({
-      host: process.env.POSTGRES_HOST,
-      port: Number(process.env.POSTGRES_PORT),
-      database: process.env.POSTGRES_DATABASE,
-      user: process.env.POSTGRES_USER,
-      password: process.env.POSTGRES_PASSWORD,
-      ssl: { rejectUnauthorized: false },
-    });
-    
-    try {
-      await client.connect();
-      const { rows } = await client.query(testQuery);
-      if (rows.length === 0) {
-        throw new Error('No comma-separated values found in select_investors column');
-      }
-    } finally {
-      await client.end();
+// ✅ Validate query
+export const validateSQLQuery = async (query: string, sourceId?: string) => {
+  "use server";
+  return validateForSource(cleanQuery(query), sourceId);
+};
+
+// ✅ List tables and columns for the SQL editor's autocomplete
+export const getEditorSchema = async (sourceId?: string): Promise<EditorTable[]> => {
+  "use server";
+  const source = getDataSource(sourceId);
+  const schema = await getSourceSchema(source.id);
+  return schema.tables.map((table) => ({
+    // Tables on the search path are written without their schema
+    name: source.schemas.includes(table.schema) ? table.name : `${table.schema}.${table.name}`,
+    columns: table.columns.map(({ name, type }) => ({ name, type })),
+  }));
+};
+
+// ✅ List data sources
+export const listDataSources = async () => {
+  "use server";
+  return getDataSources().map(toDataSourceInfo);
+};
+
+// ✅ Run query
+const pageRequestSchema = z.object({
+  offset: z.number().int().min(0),
+  limit: z.number().int().min(1),
+  sort: z
+    .array(z.object({ column: z.string().min(1), direction: z.enum(["asc", "desc"]) }))
+    .max(10),
+  filters: z
+    .array(
+      z.object({
+        column: z.string().min(1),
+        operator: z.enum(["contains", "eq", "gt", "gte", "lt", "lte"]),
+        value: z.string(),
+      }),
+    )
+    .max(50),
+});
+
+// With `page`, only that page is returned, sorted and filtered by the database,
+// along with the total number of matching rows
+export const runGenerateSQLQuery = async (
+  query: string,
+  sourceId?: string,
+  page?: ResultPageRequest,
+): Promise<QueryResult> => {
+  "use server";
+
+  const cleanedQuery = cleanQuery(query);
+  console.log("Generated SQL query:", cleanedQuery);
+  const source = getDataSource(sourceId);
+  const limits = getQueryLimits();
+  const pageRequest = page ? pageRequestSchema.parse(page) : undefined;
+
+  await ensureDatabaseReady(source.id);
+  const outcome = await attemptQuery(cleanedQuery, source, limits, pageRequest);
+
+  if ("error" in outcome) {
+    const { error } = outcome;
+    if (error.issues) {
+      throw new Error(error.message);
+    } else if (error.code === '42P01') {
+      console.error('Table does not exist error');
+      throw new Error(`Table does not exist: ${error.message}`);
+    } else if (error.code === '57014') {
+      throw new Error(`Query was cancelled after exceeding the ${limits.statementTimeoutMs}ms time limit`);
+    } else {
+      throw new Error(`Database error: ${error.message}`);
     }
   }
 
-  console.log('Creating PostgreSQL client with config:', {
-    host: process.env.POSTGRES_HOST,
-    port: Number(process.env.POSTGRES_PORT),
-    database: process.env.POSTGRES_DATABASE,
-    user: process.env.POSTGRES_USER,
-    ssl: { rejectUnauthorized: false }
-  });
-  const client = new Client({
-    host: process.env.POSTGRES_HOST,
-    port: Number(process.env.POSTGRES_PORT),
-    database: process.env.POSTGRES_DATABASE,
-    user: process.env.POSTGRES_USER,
-    password: process.env.POSTGRES_PASSWORD,
-    ssl: { rejectUnauthorized: false },
-  });
+  if (!pageRequest && outcome.result.rowCount === 0) {
+    throw new Error('Your query executed successfully but found no matching records. Try broadening your search criteria.');
+  }
 
+  return outcome.result;
+};
+
+// ✅ Show the plan Postgres uses for a query, optionally running it with ANALYZE
+export const explainQueryPlan = async (query: string, sourceId?: string, analyze = false) => {
+  "use server";
+
+  const cleanedQuery = cleanQuery(query);
+  const source = getDataSource(sourceId);
+  const limits = getQueryLimits();
+  const validation = await validateForSource(cleanedQuery, source.id);
+  if (!validation.valid) {
+    throw new Error(`Query failed safety checks: ${validation.issues.map((issue) => issue.message).join(" ")}`);
+  }
+
+  await ensureDatabaseReady(source.id);
   try {
-    console.log('Attempting to connect to PostgreSQL database with config:', {
-      host: process.env.POSTGRES_HOST,
-      port: Number(process.env.POSTGRES_PORT),
-      database: process.env.POSTGRES_DATABASE,
-      user: process.env.POSTGRES_USER,
-      ssl: { rejectUnauthorized: false }
-    });
-    await client.connect();
-    console.log('Successfully connected to PostgreSQL database');
-    
-    // First check if table exists
-    console.log('Checking if unicorns table exists');
-    const tableCheck = await client.query(
-      "SELECT EXISTS (SELECT FROM pg_tables WHERE tablename = 'unicorns')"
+    return await withClient(source.id, (client) =>
+      explainReadOnlyQuery(client, cleanedQuery, limits, source.schemas, analyze),
     );
-    console.log('Table check result:', tableCheck.rows[0].exists);
-    if (!tableCheck.rows[0].exists) {
-      throw new Error('Table "unicorns" does not exist');
+  } catch (e: any) {
+    if (e.code === '57014') {
+      throw new Error(`Query was cancelled after exceeding the ${limits.statementTimeoutMs}ms time limit`);
     }
+    throw new Error(`Database error: ${e.message}`);
+  }
+};
 
-    // Check if table has data
-    console.log('Checking if unicorns table has data');
-    const countQuery = await client.query('SELECT COUNT(*) FROM unicorns');
-    console.log('Row count:', countQuery.rows[0].count);
-    if (countQuery.rows[0].count === '0') {
-      throw new Error('Table exists but contains no data');
-    }
-    
-    // Check if table has data
-    const countResult = await client.query('SELECT COUNT(*) FROM unicorns');
-    const rowCount = parseInt(countResult.rows[0].count);
-    
-    if (rowCount === 0) {
-      throw new Error('The unicorns table exists but contains no data. Please ensure your Supabase database is properly seeded.');
-    }
-    
-    console.log('Executing SQL query:', query);
-    const { rows } = await client.query(query);
-    console.log('Query executed successfully, rows returned:', rows.length);
-    if (rows.length === 0) {
-      throw new Error('Your query executed successfully but found no matching records. Try broadening your search criteria.');
-    }
-    
-    // Convert results to CSV format if needed
-    if (queryLower.includes('csv') || queryLower.includes('export')) {
-      const csvContent = rows.map(row => Object.values(row).join(',')).join('\n');
-      return { csv: csvContent };
+// Rejected queries, data exceptions (class 22) and syntax or access rule
+// violations (class 42) are worth showing to the model; timeouts and
+// connection failures are not
+const isRepairable = (error: QueryError) =>
+  Boolean(error.issues) || /^(22|42)/.test(error.code ?? "");
+
+const repairQuery = async (
+  question: string,
+  query: string,
+  error: QueryError,
+  sourceId: string,
+) => {
+  const schema = await getSourceSchema(sourceId);
+  const result = await generateText({
+    model: getModel("sql"),
+    system: `You are a SQL (postgres) expert. A query you wrote to answer the user's question failed. Fix it. The database schema is:
+
+${buildSchemaPrompt(schema)}`,
+    prompt: `User question:
+${question}
+
+Failing SQL query:
+${query}
+
+Error${error.code ? ` (SQLSTATE ${error.code})` : ""}:
+${error.message}
+
+Return ONLY the corrected SQL query with no additional text or explanation.`,
+    temperature: 0,
+  });
+  return cleanQuery(result.text);
+};
+
+// ✅ Run query, repairing it with the model when it fails
+export const runQueryWithRepair = async (
+  question: string,
+  query: string,
+  sourceId?: string,
+): Promise<RepairedQueryResult> => {
+  "use server";
+
+  const source = getDataSource(sourceId);
+  const limits = getQueryLimits();
+  const maxRepairs = readPositiveInt(process.env.QUERY_REPAIR_MAX_ATTEMPTS, 2);
+  await ensureDatabaseReady(source.id);
+
+  const attempts: QueryAttempt[] = [];
+  let sql = cleanQuery(query);
+  for (let repairs = 0; ; repairs++) {
+    const outcome = await attemptQuery(sql, source, limits);
+    if ("result" in outcome) {
+      attempts.push({ sql });
+      return { attempts, result: outcome.result };
     }
-    
-    return rows as Result[];
-  } catch (e: any) {
-    console.error('Database operation failed:', e);
-    if (e.message.includes('relation "unicorns" does not exist') || 
-        e.message === 'Table "unicorns" does not exist') {
-      console.error('Table does not exist error');
-      throw new Error("Table does not exist");
-    } else if (e.message === 'Query executed successfully but returned no results') {
-      console.error('Query returned no results');
-      throw new Error('No data found matching your query criteria');
-    } else {
-      console.error('Unexpected database error:', e.stack || e.message);
-      throw new Error(`Database error: ${e.message}`);
+
+    attempts.push({ sql, error: outcome.error });
+    if (repairs >= maxRepairs || !isRepairable(outcome.error)) {
+      return { attempts, result: null };
     }
-  } finally {
-    await client.end();
+    console.log(`Repairing query (attempt ${repairs + 1} of ${maxRepairs}):`, outcome.error.message);
+    sql = await repairQuery(question, sql, outcome.error, source.id);
   }
 };
 
+const clauseExplanationsSchema = z.object({
+  explanations: z.array(
+    z.object({
+      part: z.number().int().describe("Number of the query part explained"),
+      explanation: z.string(),
+    }),
+  ),
+});
+
 // ✅ Explain query
-export const explainQuery = async (input: string, sqlQuery: string) => {
+// The query is split into clauses by the parser and the model explains each
+// numbered clause, so explanations map back to exact offsets in the SQL
+export const explainQuery = async (input: string, sqlQuery: string, sourceId?: string) => {
   "use server";
 
+  const clauses = splitClauses(sqlQuery);
+  // A query the parser cannot split is explained as a whole
+  const parts = clauses.length > 0 ? clauses : [{ kind: "query", start: 0, end: sqlQuery.length }];
+
   try {
-    const result = await generateText({
-      model: getGroqModel(),
-      system: `You are a SQL (postgres) expert. Your job is to explain to the user a SQL query you wrote. The table schema is:
-      unicorns (
-        id SERIAL PRIMARY KEY,
-        company VARCHAR(255) NOT NULL UNIQUE,
-        valuation DECIMAL(10, 2) NOT NULL,
-        date_joined DATE,
-        country VARCHAR(255) NOT NULL,
-        city VARCHAR(255) NOT NULL,
-        industry VARCHAR(255) NOT NULL,
-        select_investors TEXT NOT NULL
-      );
-
-      Break the query into sections and explain each. If a section has no explanation, include it but leave the explanation empty.`,
+    const schema = await getSourceSchema(sourceId);
+    const { object } = await generateObject({
+      model: getModel("explanation"),
+      system: `You are a SQL (postgres) expert. Your job is to explain to the user a SQL query you wrote. The database schema is:
+
+${buildSchemaPrompt(schema)}
+
+      The query has been split into numbered parts. Explain each part in one or two sentences, in terms of the user's question. If a part needs no explanation, leave its explanation empty.`,
       prompt: `Explain the SQL query you generated to retrieve the data the user wanted.
 
 User Query:
 ${input}
 
 Generated SQL Query:
-${sqlQuery}`,
-      max_tokens: 500,
+${sqlQuery}
+
+Query parts:
+${parts.map(({ kind, start, end }, index) => `${index + 1}. [${kind}] ${sqlQuery.slice(start, end)}`).join("\n")}`,
+      schema: clauseExplanationsSchema,
+      maxTokens: 1000,
       temperature: 0.7
     });
 
-    return { explanations: [{ section: "Full Query", explanation: result.text }] };
+    const explanations: QueryExplanation[] = object.explanations.flatMap(({ part, explanation }) => {
+      const clause = parts[part - 1];
+      return clause && explanation.trim()
+        ? [{ section: sqlQuery.slice(clause.start, clause.end), start: clause.start, end: clause.end, explanation }]
+        : [];
+    });
+    return { explanations };
   } catch (e) {
     console.error(e);
-    throw new Error(`Failed to generate query explanation: ${e.message}`);
+    throw new Error(`Failed to generate query explanation: ${toModelError(e).message}`);
   }
 };
 
 // ✅ Generate chart configuration
-export const generateChartConfig = async (results: Result[], userQuery: string) => {
+// A model config naming columns the result lacks is discarded like a failed
+// call. Given the result's fields, the rule-based recommendation stands in for
+// it, and LLM_CHART_MODEL=rules skips the model altogether.
+export const generateChartConfig = async (
+  results: Result[],
+  userQuery: string,
+  fields?: ResultField[],
+) => {
   "use server";
 
   const system = `You are a data visualization expert.`;
 
-  try {
-    const { object: config } = await generateObject({
-      model: getOpenAIModel(),
-      system,
-      prompt: `Given the following data from a SQL query result, generate the chart config that best visualises the data and answers the user's query.
+  if (process.env.LLM_CHART_MODEL !== "rules") {
+    try {
+      const { object: config } = await generateObject({
+        model: getModel("chart"),
+        system,
+        prompt: `Given the following data from a SQL query result, generate the chart config that best visualises the data and answers the user's query.
 For multiple groups use multi-lines.
 
 User Query:
@@ -285,18 +377,224 @@ ${userQuery}
 
 Data:
 ${JSON.stringify(results, null, 2)}`,
-      schema: configSchema,
-    });
+        schema: configSchema,
+      });
 
-    const colors: Record<string, string> = {};
-    config.yKeys.forEach((key, index) => {
-      colors[key] = `hsl(var(--chart-${index + 1}))`;
-    });
+      const checked = fields ? validateChartConfig(config, fields) : { issues: [] };
+      if (checked.issues.length > 0) {
+        throw new Error(`Chart config rejected: ${checked.issues.join("; ")}`);
+      }
 
-    const updatedConfig: Config = { ...config, colors };
-    return { config: updatedConfig };
-  } catch (e) {
-    console.error(e.message);
+      const colors: Record<string, string> = {};
+      config.yKeys.forEach((key, index) => {
+        colors[key] = `hsl(var(--chart-${index + 1}))`;
+      });
+
+      const updatedConfig: Config = { ...config, colors };
+      return { config: updatedConfig };
+    } catch (e) {
+      console.error(toModelError(e).message);
+    }
+  }
+
+  const recommended = fields ? recommendChart(results, fields) : null;
+  if (!recommended) {
     throw new Error("Failed to generate chart suggestion");
   }
-};
\ No newline at end of file
+  return { config: recommended };
+};
+
+// ✅ Search query history
+export const searchQueryHistory = async (search?: string) => {
+  "use server";
+  return searchHistory(search);
+};
+
+// ✅ Restore a past run, rows and chart included
+export const getQueryHistoryEntry = async (id: string) => {
+  "use server";
+  const entry = await getHistoryEntry(id);
+  if (!entry) {
+    throw new Error('This query is no longer in the history');
+  }
+  return entry;
+};
+
+// ✅ Re-run a past query against current data, reusing its SQL and chart
+export const rerunHistoryEntry = async (id: string): Promise<HistoryEntry> => {
+  "use server";
+
+  const entry = await getQueryHistoryEntry(id);
+  const source = getDataSource(entry.sourceId);
+  await ensureDatabaseReady(source.id);
+
+  const start = Date.now();
+  const outcome = await attemptQuery(entry.sql, source, getQueryLimits());
+  const durationMs = Date.now() - start;
+  const run = {
+    question: entry.question,
+    sql: entry.sql,
+    sourceId: source.id,
+    durationMs,
+    chartConfig: entry.chartConfig,
+  };
+
+  if ("error" in outcome) {
+    return recordRun({
+      ...run,
+      status: "error",
+      rowCount: null,
+      error: outcome.error.message,
+      fields: [],
+      rows: [],
+      truncated: false,
+    });
+  }
+  const { fields, rows, rowCount, truncated } = outcome.result;
+  return recordRun({
+    ...run,
+    status: rowCount > 0 ? "success" : "empty",
+    rowCount,
+    fields,
+    rows,
+    truncated,
+  });
+};
+
+const saveQueryInputSchema = z.object({
+  name: z.string().trim().min(1, "Give the query a name").max(200),
+  question: z.string(),
+  sql: z.string().min(1),
+  sourceId: z.string().optional(),
+  chartConfig: configSchema.nullable(),
+});
+
+// ✅ Save a query under a name for its permalink
+export const saveNamedQuery = async (input: z.input<typeof saveQueryInputSchema>) => {
+  "use server";
+
+  const parsed = saveQueryInputSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0].message);
+  }
+  const { sourceId, ...query } = parsed.data;
+  const source = getDataSource(sourceId);
+  const sql = cleanQuery(query.sql);
+  const validation = await validateForSource(sql, source.id);
+  if (!validation.valid) {
+    throw new Error(`Query failed safety checks: ${validation.issues.map((issue) => issue.message).join(" ")}`);
+  }
+  return saveQuery({ ...query, sql, sourceId: source.id });
+};
+
+// ✅ Replace the chart of a saved query with one edited in the chart editor
+export const updateSavedQueryChart = async (id: string, chartConfig: Config) => {
+  "use server";
+
+  const parsed = configSchema.safeParse(chartConfig);
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0].message);
+  }
+  return updateSavedQuery(id, { chartConfig: parsed.data });
+};
+
+// ✅ List dashboards
+export const listDashboards = async () => {
+  "use server";
+  const dashboards = await getDashboards();
+  return dashboards.map(({ id, name, tiles }) => ({ id, name, tileCount: tiles.length }));
+};
+
+// ✅ Create a dashboard
+export const createDashboard = async (name: string) => {
+  "use server";
+  if (!name.trim()) {
+    throw new Error('Give the dashboard a name');
+  }
+  return addDashboard(name.trim());
+};
+
+const pinInputSchema = z.object({
+  // An existing dashboard, or the name of a new one
+  dashboardId: z.string().optional(),
+  dashboardName: z.string().trim().optional(),
+  question: z.string(),
+  sql: z.string().min(1),
+  sourceId: z.string().optional(),
+  chartConfig: configSchema,
+});
+
+// ✅ Pin a chart to a dashboard
+export const pinChartToDashboard = async (input: z.input<typeof pinInputSchema>) => {
+  "use server";
+
+  const parsed = pinInputSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0].message);
+  }
+  const { dashboardId, dashboardName, sourceId, ...tile } = parsed.data;
+  const source = getDataSource(sourceId);
+  const sql = cleanQuery(tile.sql);
+  const validation = await validateForSource(sql, source.id);
+  if (!validation.valid) {
+    throw new Error(`Query failed safety checks: ${validation.issues.map((issue) => issue.message).join(" ")}`);
+  }
+
+  const id = dashboardId ?? (await createDashboard(dashboardName ?? "")).id;
+  return addTile(id, {
+    ...tile,
+    title: tile.chartConfig.title,
+    sql,
+    sourceId: source.id,
+    width: 1,
+    height: "md",
+    refreshMinutes: null,
+  });
+};
+
+const tileLayoutSchema = z.array(
+  z.object({
+    id: z.string(),
+    title: z.string().trim().min(1),
+    width: z.union([z.literal(1), z.literal(2)]),
+    height: z.enum(["sm", "md", "lg"]),
+    refreshMinutes: z.number().int().positive().nullable(),
+  }),
+);
+
+// ✅ Reorder, resize, retitle, reschedule or remove tiles
+export const saveDashboardLayout = async (
+  dashboardId: string,
+  layout: z.input<typeof tileLayoutSchema>,
+) => {
+  "use server";
+
+  const parsed = tileLayoutSchema.safeParse(layout);
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0].message);
+  }
+  // Tiles missing from the layout are removed; SQL and charts never change here
+  return updateDashboardTiles(dashboardId, (tiles) =>
+    parsed.data.flatMap((layout) => {
+      const tile = tiles.find((tile) => tile.id === layout.id);
+      return tile ? [{ ...tile, ...layout }] : [];
+    }),
+  );
+};
+
+// ✅ Fetch fresh data for a dashboard tile
+export const runDashboardTile = async (dashboardId: string, tileId: string) => {
+  "use server";
+
+  const tile = (await getDashboard(dashboardId))?.tiles.find((tile) => tile.id === tileId);
+  if (!tile) {
+    throw new Error('This tile no longer exists');
+  }
+  const source = getDataSource(tile.sourceId);
+  await ensureDatabaseReady(source.id);
+  const outcome = await attemptQuery(tile.sql, source, getQueryLimits());
+  if ("error" in outcome) {
+    throw new Error(outcome.error.message);
+  }
+  return outcome.result;
+};
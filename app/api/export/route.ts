@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { Readable } from "stream";
+import { validateSQLQuery } from "@/app/actions";
+import { getDataSource } from "@/lib/data-sources";
+import { ensureDatabaseReady, streamWithClient } from "@/lib/db";
+import { exportBatches } from "@/lib/export";
+import { exportFormats, isExportFormat, toFileName } from "@/lib/export-formats";
+import { getQueryLimits, QueryBatch, streamReadOnlyQuery } from "@/lib/query-runner";
+import { cleanQuery, readPositiveInt } from "@/lib/utils";
+
+export const dynamic = "force-dynamic";
+
+const readField = (form: FormData, name: string) => {
+  const value = form.get(name);
+  return typeof value === "string" ? value : null;
+};
+
+// Streams the full result of a query as a file download. The query comes as
+// a form post, so a link or image on another site cannot run it:
+// POST /api/export with sql, format=csv|json|ndjson|xlsx|parquet, sourceId and name
+export async function POST(request: Request) {
+  // Browsers mark requests made by other sites; those are refused outright
+  if (request.headers.get("Sec-Fetch-Site") === "cross-site") {
+    return NextResponse.json({ error: "Cross-site exports are not allowed" }, { status: 403 });
+  }
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json({ error: "Expected the query as form fields" }, { status: 400 });
+  }
+  const format = readField(form, "format") ?? "csv";
+  const sql = cleanQuery(readField(form, "sql") ?? "");
+  const sourceId = readField(form, "sourceId") ?? undefined;
+  if (!isExportFormat(format)) {
+    return NextResponse.json({ error: `Unsupported export format "${format}"` }, { status: 400 });
+  }
+
+  let source;
+  try {
+    source = getDataSource(sourceId);
+  } catch (e) {
+    return NextResponse.json({ error: (e as Error).message }, { status: 400 });
+  }
+  const validation = await validateSQLQuery(sql, source.id);
+  if (!validation.valid) {
+    return NextResponse.json(
+      { error: "Query failed safety checks", issues: validation.issues },
+      { status: 400 },
+    );
+  }
+  await ensureDatabaseReady(source.id);
+
+  // Exports are not held to the on-screen row limit, only to their own
+  const limits = {
+    ...getQueryLimits(),
+    maxRows: readPositiveInt(process.env.QUERY_EXPORT_MAX_ROWS, 100000),
+  };
+  const batches = streamWithClient(source.id, (client) =>
+    streamReadOnlyQuery(client, sql, limits, source.schemas),
+  );
+
+  // Run the query before answering, so its errors get a proper status
+  let first: IteratorResult<QueryBatch>;
+  try {
+    first = await batches.next();
+  } catch (e) {
+    return NextResponse.json({ error: `Database error: ${(e as Error).message}` }, { status: 400 });
+  }
+  async function* all() {
+    try {
+      if (!first.done) yield first.value;
+      yield* batches;
+    } finally {
+      // Releases the client when the download is cancelled early
+      await batches.return(undefined);
+    }
+  }
+
+  const { extension, contentType } = exportFormats[format];
+  const output = exportBatches(all(), format);
+  return new Response(Readable.toWeb(output) as ReadableStream<Uint8Array>, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${toFileName(readField(form, "name"), "query-results")}.${extension}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { checkAllDatabases } from "@/lib/db";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const sources = await checkAllDatabases();
+  const ok = sources.every((source) => source.ok);
+  return NextResponse.json({ ok, sources }, { status: ok ? 200 : 503 });
+}
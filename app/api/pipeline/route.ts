@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { runPipeline } from "@/lib/pipeline";
+
+export const dynamic = "force-dynamic";
+
+const requestSchema = z.object({
+  question: z.string().trim().min(1),
+  sourceId: z.string().optional(),
+  history: z
+    .array(
+      z.object({
+        question: z.string(),
+        sql: z.string(),
+        columns: z.array(z.string()),
+        rowCount: z.number().int().nonnegative(),
+      }),
+    )
+    .max(50)
+    .default([]),
+});
+
+// Streams pipeline events as newline-delimited JSON
+export async function POST(request: Request) {
+  const parsed = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "A question is required" }, { status: 400 });
+  }
+
+  const { question, sourceId, history } = parsed.data;
+  const events = runPipeline(question, sourceId, history);
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await events.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(JSON.stringify(value) + "\n"));
+      }
+    },
+    async cancel() {
+      // The client went away; stop before running the remaining steps
+      await events.return(undefined);
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
@@ -0,0 +1,48 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getDashboard } from "@/lib/dashboards";
+import { DashboardGrid } from "@/components/dashboard-grid";
+import { Button } from "@/components/ui/button";
+
+export const dynamic = "force-dynamic";
+
+type Props = {
+  params: Promise<{ id: string }>;
+};
+
+export async function generateMetadata({ params }: Props) {
+  const dashboard = await getDashboard((await params).id);
+  return {
+    title: dashboard
+      ? `${dashboard.name} · Natural Language Postgres`
+      : "Dashboard not found",
+  };
+}
+
+export default async function DashboardPage({ params }: Props) {
+  const dashboard = await getDashboard((await params).id);
+  if (!dashboard) notFound();
+
+  return (
+    <div className="bg-neutral-50 dark:bg-neutral-900 flex items-start justify-center p-0 sm:p-8">
+      <div className="w-full max-w-6xl min-h-dvh sm:min-h-0 flex flex-col">
+        <div className="bg-card rounded-xl sm:border sm:border-border flex-grow flex flex-col p-6 sm:p-8">
+          <div className="flex items-center justify-between mb-6">
+            <h1 className="text-2xl sm:text-3xl font-bold text-foreground">
+              {dashboard.name}
+            </h1>
+            <div className="flex gap-2">
+              <Button variant="ghost" asChild>
+                <Link href="/dashboards">All dashboards</Link>
+              </Button>
+              <Button variant="outline" asChild>
+                <Link href="/">Ask a question</Link>
+              </Button>
+            </div>
+          </div>
+          <DashboardGrid dashboard={dashboard} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import Link from "next/link";
+import { getDashboards } from "@/lib/dashboards";
+import { CreateDashboardForm } from "@/components/create-dashboard-form";
+import { Button } from "@/components/ui/button";
+
+export const dynamic = "force-dynamic";
+
+export const metadata = {
+  title: "Dashboards · Natural Language Postgres",
+};
+
+export default async function DashboardsPage() {
+  const dashboards = await getDashboards();
+
+  return (
+    <div className="bg-neutral-50 dark:bg-neutral-900 flex items-start justify-center p-0 sm:p-8">
+      <div className="w-full max-w-4xl min-h-dvh sm:min-h-0 flex flex-col">
+        <div className="bg-card rounded-xl sm:border sm:border-border flex-grow flex flex-col p-6 sm:p-8">
+          <div className="flex items-center justify-between mb-6">
+            <h1 className="text-2xl sm:text-3xl font-bold text-foreground">
+              Dashboards
+            </h1>
+            <Button variant="outline" asChild>
+              <Link href="/">Ask a question</Link>
+            </Button>
+          </div>
+          <CreateDashboardForm />
+          {dashboards.length === 0 ? (
+            <p className="py-16 text-center text-muted-foreground">
+              No dashboards yet. Create one here, or pin a chart from any
+              result.
+            </p>
+          ) : (
+            <ul className="mt-6 divide-y divide-border">
+              {dashboards.map((dashboard) => (
+                <li key={dashboard.id}>
+                  <Link
+                    href={`/dashboards/${dashboard.id}`}
+                    className="flex items-center justify-between py-3 hover:text-primary"
+                  >
+                    <span className="font-medium">{dashboard.name}</span>
+                    <span className="text-sm text-muted-foreground">
+                      {dashboard.tiles.length}{" "}
+                      {dashboard.tiles.length === 1 ? "chart" : "charts"}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,61 +1,108 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { listDataSources, runGenerateSQLQuery } from "./actions";
+import { Config, DataSourceInfo, HistoryEntry, PipelineEvent } from "@/lib/types";
+import { streamPipeline } from "@/lib/pipeline-client";
 import {
-  generateChartConfig,
-  generateQuery,
-  runGenerateSQLQuery,
-} from "./actions";
-import { Config, Result } from "@/lib/types";
-import { Loader2 } from "lucide-react";
+  applyEditedQuery,
+  applyPipelineEvent,
+  createTurn,
+  toConversationHistory,
+  turnFromHistory,
+  TurnState,
+} from "@/lib/conversation";
 import { toast } from "sonner";
-import Results from "@/components/results";
 import { ProjectInfo } from "@/components/project-info";
 import { SuggestedQueries } from "@/components/suggested-queries";
-import { QueryViewer } from "@/components/query-viewer";
 import { Search } from "@/components/search";
 import { Header } from "@/components/header";
+import { Turn } from "@/components/turn";
 
 export default function Page() {
   const [inputValue, setInputValue] = useState("");
   const [submitted, setSubmitted] = useState(false);
-  const [results, setResults] = useState<Result[]>([]);
-  const [columns, setColumns] = useState<string[]>([]);
-  const [activeQuery, setActiveQuery] = useState("");
-  const [loading, setLoading] = useState(false);
-  const [loadingStep, setLoadingStep] = useState(1);
-  const [chartConfig, setChartConfig] = useState<Config | null>(null);
+  // The conversation so far, oldest question first
+  const [turns, setTurns] = useState<TurnState[]>([]);
+  const [dataSources, setDataSources] = useState<DataSourceInfo[]>([]);
+  const [dataSourceId, setDataSourceId] = useState<string>();
+  const pipelineRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    listDataSources()
+      .then((sources) => {
+        setDataSources(sources);
+        setDataSourceId((current) => current ?? sources[0]?.id);
+      })
+      .catch(() => toast.error("Could not load data sources."));
+  }, []);
+
+  const updateTurn = (id: string, event: PipelineEvent) => {
+    setTurns((turns) =>
+      turns.map((turn) => (turn.id === id ? applyPipelineEvent(turn, event) : turn)),
+    );
+  };
+
+  // Save and pin then keep the edited chart rather than the suggested one
+  const updateChartConfig = (id: string, chartConfig: Config) => {
+    setTurns((turns) =>
+      turns.map((turn) => (turn.id === id ? { ...turn, chartConfig } : turn)),
+    );
+  };
+
+  // Runs a query edited in the SQL editor; failures are shown in the editor
+  const handleRunEdited = async (id: string, sql: string) => {
+    const result = await runGenerateSQLQuery(sql, dataSourceId);
+    setTurns((turns) =>
+      turns.map((turn) => (turn.id === id ? applyEditedQuery(turn, sql, result) : turn)),
+    );
+  };
+
+  const reportError = (event: Extract<PipelineEvent, { type: "error" }>) => {
+    // Issues are shown inline and a missing explanation can be requested again
+    if (event.issues || event.stage === "explaining") return;
+    toast.error(
+      event.stage === "charting"
+        ? "Could not suggest a chart for these results."
+        : event.message,
+    );
+  };
 
   const handleSubmit = async (suggestion?: string) => {
     const question = suggestion ?? inputValue;
     if (inputValue.length === 0 && !suggestion) return;
-    clearExistingData();
-    if (question.trim()) {
-      setSubmitted(true);
-    }
-    setLoading(true);
-    setLoadingStep(1);
-    setActiveQuery("");
+    if (!question.trim()) return;
+    stopPipeline();
+    setSubmitted(true);
+    setInputValue("");
+
+    const history = toConversationHistory(turns);
+    const turn = createTurn(question);
+    setTurns((turns) => [
+      // A turn interrupted by this question is left as it was
+      ...turns.map((previous) => ({ ...previous, stage: null })),
+      turn,
+    ]);
+
+    const controller = new AbortController();
+    pipelineRef.current = controller;
     try {
-      const query = await generateQuery(question);
-      if (query === undefined) {
-        toast.error("An error occurred. Please try again.");
-        setLoading(false);
-        return;
+      for await (const event of streamPipeline(
+        question,
+        dataSourceId,
+        history,
+        controller.signal,
+      )) {
+        if (controller.signal.aborted) break;
+        if (event.type === "error") reportError(event);
+        updateTurn(turn.id, event);
       }
-      setActiveQuery(query);
-      setLoadingStep(2);
-      const companies = await runGenerateSQLQuery(query);
-      const columns = companies.length > 0 ? Object.keys(companies[0]) : [];
-      setResults(companies);
-      setColumns(columns);
-      setLoading(false);
-      const generation = await generateChartConfig(companies, question);
-      setChartConfig(generation.config);
     } catch (e) {
-      toast.error("An error occurred. Please try again.");
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        toast.error("An error occurred. Please try again.");
+        updateTurn(turn.id, { type: "done" });
+      }
     }
   };
 
@@ -68,17 +115,33 @@ export default function Page() {
     }
   };
 
-  const clearExistingData = () => {
-    setActiveQuery("");
-    setResults([]);
-    setColumns([]);
-    setChartConfig(null);
+  // Stops a pipeline that is still running for an earlier question
+  const stopPipeline = () => {
+    pipelineRef.current?.abort();
+    pipelineRef.current = null;
+  };
+
+  // Shows a past run as the latest turn, so follow-ups can build on it
+  const handleRestore = (entry: HistoryEntry) => {
+    stopPipeline();
+    setSubmitted(true);
+    if (entry.sourceId !== dataSourceId) {
+      // A conversation stays on one data source
+      setDataSourceId(entry.sourceId);
+      setTurns([turnFromHistory(entry)]);
+      return;
+    }
+    setTurns((turns) => [
+      ...turns.map((previous) => ({ ...previous, stage: null })),
+      turnFromHistory(entry),
+    ]);
   };
 
   const handleClear = () => {
+    stopPipeline();
     setSubmitted(false);
     setInputValue("");
-    clearExistingData();
+    setTurns([]);
   };
 
   return (
@@ -91,13 +154,16 @@ export default function Page() {
           transition={{ duration: 0.5, ease: "easeOut" }}
         >
           <div className="p-6 sm:p-8 flex flex-col flex-grow">
-            <Header handleClear={handleClear} />
+            <Header handleClear={handleClear} handleRestore={handleRestore} />
             <Search
               handleClear={handleClear}
               handleSubmit={handleSubmit}
               inputValue={inputValue}
               setInputValue={setInputValue}
               submitted={submitted}
+              dataSources={dataSources}
+              dataSourceId={dataSourceId}
+              setDataSourceId={setDataSourceId}
             />
             <div
               id="main-container"
@@ -118,34 +184,19 @@ export default function Page() {
                       layout
                       className="sm:h-full min-h-[400px] flex flex-col"
                     >
-                      {activeQuery.length > 0 && (
-                        <QueryViewer
-                          activeQuery={activeQuery}
-                          inputValue={inputValue}
-                        />
-                      )}
-                      {loading ? (
-                        <div className="h-full absolute bg-background/50 w-full flex flex-col items-center justify-center space-y-4">
-                          <Loader2 className="h-12 w-12 animate-spin text-muted-foreground" />
-                          <p className="text-foreground">
-                            {loadingStep === 1
-                              ? "Generating SQL query..."
-                              : "Running SQL query..."}
-                          </p>
-                        </div>
-                      ) : results.length === 0 ? (
-                        <div className="flex-grow flex items-center justify-center">
-                          <p className="text-center text-muted-foreground">
-                            No results found.
-                          </p>
-                        </div>
-                      ) : (
-                        <Results
-                          results={results}
-                          chartConfig={chartConfig}
-                          columns={columns}
-                        />
-                      )}
+                      <div className="space-y-8">
+                        {turns.map((turn) => (
+                          <Turn
+                            key={turn.id}
+                            turn={turn}
+                            dataSourceId={dataSourceId}
+                            onChartConfigChange={(config) =>
+                              updateChartConfig(turn.id, config)
+                            }
+                            onRunEdited={(sql) => handleRunEdited(turn.id, sql)}
+                          />
+                        ))}
+                      </div>
                     </motion.div>
                   )}
                 </AnimatePresence>
@@ -0,0 +1,34 @@
+import { notFound } from "next/navigation";
+import { getSavedQuery } from "@/lib/saved-queries";
+import { SavedQueryView } from "@/components/saved-query-view";
+
+export const dynamic = "force-dynamic";
+
+type Props = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ view?: string }>;
+};
+
+export async function generateMetadata({ params }: Props) {
+  const savedQuery = await getSavedQuery((await params).id);
+  return { title: savedQuery ? `${savedQuery.name} · Natural Language Postgres` : "Query not found" };
+}
+
+export default async function SavedQueryPage({ params, searchParams }: Props) {
+  const [{ id }, { view }] = await Promise.all([params, searchParams]);
+  const savedQuery = await getSavedQuery(id);
+  if (!savedQuery) notFound();
+
+  return (
+    <div className="bg-neutral-50 dark:bg-neutral-900 flex items-start justify-center p-0 sm:p-8">
+      <div className="w-full max-w-4xl min-h-dvh sm:min-h-0 flex flex-col">
+        <div className="bg-card rounded-xl sm:border sm:border-border flex-grow flex flex-col p-6 sm:p-8">
+          <SavedQueryView
+            savedQuery={savedQuery}
+            initialView={view === "charts" || view === "plan" ? view : "table"}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
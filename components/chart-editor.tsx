@@ -0,0 +1,373 @@
+"use client";
+
+import { ReactNode, useState } from "react";
+import { RotateCcw } from "lucide-react";
+import { chartColors, seriesCategories, validateChartConfig } from "@/lib/chart-config";
+import { isNumericKind } from "@/lib/result-fields";
+import { ChartType, chartTypes, Config, Result, ResultField } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+
+const typeLabels: Record<ChartType, string> = {
+  bar: "Bar",
+  line: "Line",
+  area: "Area",
+  pie: "Pie",
+  scatter: "Scatter",
+  histogram: "Histogram",
+  composed: "Bars and lines",
+};
+
+const selectClassName =
+  "h-9 w-full rounded-md border border-input bg-background px-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+const Setting = ({ label, children }: { label: string; children: ReactNode }) => (
+  <label className="flex flex-col gap-1 text-sm">
+    <span className="font-medium text-muted-foreground">{label}</span>
+    {children}
+  </label>
+);
+
+const Toggle = ({
+  label,
+  checked,
+  onChange,
+}: {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) => (
+  <label className="flex items-center gap-2 text-sm">
+    <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+    {label}
+  </label>
+);
+
+// The column a multi-line chart splits its lines by. Charts suggested before
+// seriesKey existed only name the categories, so it is looked up from them.
+const seriesColumn = (config: Config, rows: Result[], fields: ResultField[]) => {
+  if (!config.multipleLines) return "";
+  if (config.seriesKey) return config.seriesKey;
+  const field = fields.find((field) =>
+    rows.some((row) => config.lineCategories?.includes(String(row[field.name]))),
+  );
+  return field?.name ?? "";
+};
+
+/**
+ * Overrides a chart config with the result's own columns. Every edit is
+ * checked against the config schema and the result, and passed to `onChange`
+ * only once it is valid, so the chart beside the editor redraws as you go.
+ */
+export const ChartEditor = ({
+  config,
+  fields,
+  rows,
+  onChange,
+}: {
+  config: Config;
+  fields: ResultField[];
+  rows: Result[];
+  onChange: (config: Config) => void;
+}) => {
+  // The config the editor opened with, for undoing every edit at once
+  const [initial] = useState(config);
+  const [draft, setDraft] = useState(config);
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const update = (change: Partial<Config>) => {
+    const next = { ...draft, ...change };
+    setDraft(next);
+    const checked = validateChartConfig(next, fields);
+    setIssues(checked.issues);
+    if (checked.config) onChange(checked.config);
+  };
+
+  const numericColumns = fields
+    .filter((field) => isNumericKind(field.kind))
+    .map((field) => field.name);
+  // Columns already plotted stay listed, whatever their type
+  const yColumns = fields
+    .map((field) => field.name)
+    .filter(
+      (name) =>
+        name !== draft.xKey && (numericColumns.includes(name) || draft.yKeys.includes(name)),
+    );
+  const series = seriesColumn(draft, rows, fields);
+  const { sortBy } = draft;
+  const cartesian = draft.type !== "pie" && draft.type !== "scatter" && draft.type !== "histogram";
+
+  const toggleYKey = (key: string, plotted: boolean) => {
+    const yKeys = plotted
+      ? fields.map((field) => field.name).filter((name) => name === key || draft.yKeys.includes(name))
+      : draft.yKeys.filter((name) => name !== key);
+    update({
+      yKeys,
+      lineKeys: draft.lineKeys?.filter((name) => yKeys.includes(name)),
+      rightAxisKeys: draft.rightAxisKeys?.filter((name) => yKeys.includes(name)),
+      ...(draft.multipleLines ? { measurementColumn: yKeys[0] } : {}),
+    });
+  };
+
+  const toggleKeyIn = (list: "lineKeys" | "rightAxisKeys", key: string, on: boolean) => {
+    const keys = (draft[list] ?? []).filter((name) => name !== key);
+    update({ [list]: on ? [...keys, key] : keys });
+  };
+
+  const changeSeries = (column: string) => {
+    if (!column) {
+      update({
+        multipleLines: undefined,
+        seriesKey: undefined,
+        measurementColumn: undefined,
+        lineCategories: undefined,
+      });
+      return;
+    }
+    const categories = seriesCategories(rows, column);
+    if (!categories) {
+      setIssues([`"${column}" has too many different values to draw a line for each`]);
+      return;
+    }
+    update({
+      multipleLines: true,
+      seriesKey: column,
+      measurementColumn: draft.yKeys[0],
+      lineCategories: categories,
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-4 rounded-lg border border-border p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Edit chart</h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setDraft(initial);
+            setIssues([]);
+            onChange(initial);
+          }}
+        >
+          <RotateCcw className="mr-1 h-4 w-4" />
+          Reset
+        </Button>
+      </div>
+
+      <Setting label="Title">
+        <Input
+          value={draft.title}
+          onChange={(e) => update({ title: e.target.value })}
+          className="h-9"
+        />
+      </Setting>
+
+      <Setting label="Chart type">
+        <select
+          value={draft.type}
+          onChange={(e) => update({ type: e.target.value as ChartType })}
+          className={selectClassName}
+        >
+          {chartTypes.map((type) => (
+            <option key={type} value={type}>
+              {typeLabels[type]}
+            </option>
+          ))}
+        </select>
+      </Setting>
+
+      <Setting label={draft.type === "histogram" ? "Column to bin" : "X axis"}>
+        <select
+          value={draft.xKey}
+          onChange={(e) => update({ xKey: e.target.value })}
+          className={selectClassName}
+        >
+          {fields.map((field) => (
+            <option key={field.name} value={field.name}>
+              {field.name}
+            </option>
+          ))}
+        </select>
+      </Setting>
+
+      {draft.type !== "histogram" && (
+        <div className="flex flex-col gap-2 text-sm">
+          <span className="font-medium text-muted-foreground">Y axis</span>
+          {yColumns.length === 0 && (
+            <p className="text-muted-foreground">No other numeric columns to plot.</p>
+          )}
+          {yColumns.map((name) => {
+            const plotted = draft.yKeys.includes(name);
+            const color =
+              draft.colors?.[name] ??
+              chartColors[draft.yKeys.indexOf(name) % chartColors.length];
+            return (
+              <div key={name} className="flex flex-col gap-1">
+                <Toggle
+                  label={name}
+                  checked={plotted}
+                  onChange={(plotted) => toggleYKey(name, plotted)}
+                />
+                {plotted && (
+                  <div className="ml-6 flex flex-wrap items-center gap-2">
+                    <div className="flex gap-1">
+                      {chartColors.map((swatch, position) => (
+                        <button
+                          key={swatch}
+                          type="button"
+                          aria-label={`Color ${position + 1} for ${name}`}
+                          onClick={() => update({ colors: { ...draft.colors, [name]: swatch } })}
+                          className={cn(
+                            "h-4 w-4 rounded-full",
+                            color === swatch && "ring-2 ring-ring ring-offset-1",
+                          )}
+                          style={{ backgroundColor: swatch }}
+                        />
+                      ))}
+                    </div>
+                    {draft.type === "composed" && (
+                      <Toggle
+                        label="Line"
+                        checked={draft.lineKeys?.includes(name) ?? false}
+                        onChange={(on) => toggleKeyIn("lineKeys", name, on)}
+                      />
+                    )}
+                    {cartesian && !(draft.type === "bar" && draft.horizontal) && (
+                      <Toggle
+                        label="Right axis"
+                        checked={draft.rightAxisKeys?.includes(name) ?? false}
+                        onChange={(on) => toggleKeyIn("rightAxisKeys", name, on)}
+                      />
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {draft.type === "line" && (
+        <Setting label="One line per value of">
+          <select
+            value={series}
+            onChange={(e) => changeSeries(e.target.value)}
+            className={selectClassName}
+          >
+            <option value="">No series</option>
+            {fields
+              .filter((field) => field.name !== draft.xKey && !draft.yKeys.includes(field.name))
+              .map((field) => (
+                <option key={field.name} value={field.name}>
+                  {field.name}
+                </option>
+              ))}
+          </select>
+        </Setting>
+      )}
+
+      {draft.type === "scatter" && (
+        <Setting label="Point size">
+          <select
+            value={draft.sizeKey ?? ""}
+            onChange={(e) => update({ sizeKey: e.target.value || undefined })}
+            className={selectClassName}
+          >
+            <option value="">Same size</option>
+            {numericColumns.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </Setting>
+      )}
+
+      {draft.type === "histogram" && (
+        <Setting label="Bins">
+          <Input
+            type="number"
+            min={2}
+            max={100}
+            value={draft.bins ?? 10}
+            onChange={(e) => update({ bins: Number(e.target.value) })}
+            className="h-9"
+          />
+        </Setting>
+      )}
+
+      {draft.type !== "histogram" && (
+        <div className="grid grid-cols-2 gap-2">
+          <Setting label="Sort by">
+            <select
+              value={draft.sortBy?.key ?? ""}
+              onChange={(e) =>
+                update({
+                  sortBy: e.target.value
+                    ? { key: e.target.value, direction: draft.sortBy?.direction ?? "asc" }
+                    : undefined,
+                })
+              }
+              className={selectClassName}
+            >
+              <option value="">Query order</option>
+              {[draft.xKey, ...draft.yKeys].map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </Setting>
+          {sortBy && (
+            <Setting label="Direction">
+              <select
+                value={sortBy.direction}
+                onChange={(e) =>
+                  update({
+                    sortBy: { key: sortBy.key, direction: e.target.value as "asc" | "desc" },
+                  })
+                }
+                className={selectClassName}
+              >
+                <option value="asc">Ascending</option>
+                <option value="desc">Descending</option>
+              </select>
+            </Setting>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        <Toggle
+          label="Legend"
+          checked={draft.legend}
+          onChange={(legend) => update({ legend })}
+        />
+        {(draft.type === "bar" || draft.type === "area") && (
+          <Toggle
+            label="Stacked"
+            checked={draft.stacked ?? false}
+            onChange={(stacked) => update({ stacked })}
+          />
+        )}
+        {draft.type === "bar" && (
+          <Toggle
+            label="Horizontal"
+            checked={draft.horizontal ?? false}
+            onChange={(horizontal) => update({ horizontal })}
+          />
+        )}
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="list-disc pl-5 text-sm text-destructive">
+          {issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+"use client";
+
+import { RefObject } from "react";
+import { ImageDown } from "lucide-react";
+import { toast } from "sonner";
+import { ChartImageFormat, exportChartImage } from "@/lib/chart-image";
+import { toFileName } from "@/lib/export-formats";
+
+const formatLabels: Record<ChartImageFormat, string> = {
+  png: "PNG image",
+  svg: "SVG image",
+};
+
+const download = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Downloads the chart drawn inside `chart` as an image, in the current theme
+export const ChartImageMenu = ({
+  chart,
+  title,
+  takeaway,
+}: {
+  chart: RefObject<HTMLDivElement | null>;
+  title: string;
+  takeaway: string;
+}) => {
+  const handleExport = async (format: ChartImageFormat) => {
+    if (!chart.current) return;
+    try {
+      const image = await exportChartImage(chart.current, { title, takeaway }, format);
+      download(image, `${toFileName(title, "chart")}.${format}`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Could not export the chart.");
+    }
+  };
+
+  return (
+    <div className="relative">
+      <ImageDown className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground pointer-events-none" />
+      <select
+        aria-label="Export chart"
+        value=""
+        onChange={(e) => {
+          if (!e.target.value) return;
+          handleExport(e.target.value as ChartImageFormat);
+        }}
+        className="h-9 appearance-none rounded-md border border-input bg-background pl-9 pr-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+      >
+        <option value="">Image</option>
+        {(Object.keys(formatLabels) as ChartImageFormat[]).map((format) => (
+          <option key={format} value={format}>
+            {formatLabels[format]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Plus } from "lucide-react";
+import { createDashboard } from "@/app/actions";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+
+export const CreateDashboardForm = () => {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      const dashboard = await createDashboard(name);
+      router.push(`/dashboards/${dashboard.id}`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not create the dashboard.");
+      setCreating(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleCreate();
+      }}
+      className="flex flex-col gap-2"
+    >
+      <div className="flex gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="New dashboard name"
+          aria-label="New dashboard name"
+        />
+        <Button type="submit" disabled={creating || !name.trim()}>
+          {creating ? (
+            <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+          ) : (
+            <Plus className="mr-1 h-4 w-4" />
+          )}
+          Create
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </form>
+  );
+};
@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { saveDashboardLayout } from "@/app/actions";
+import { Dashboard, DashboardTile as Tile } from "@/lib/types";
+import { DashboardTile } from "./dashboard-tile";
+import { Button } from "./ui/button";
+
+const toLayout = (tiles: Tile[]) =>
+  tiles.map(({ id, title, width, height, refreshMinutes }) => ({
+    id,
+    title,
+    width,
+    height,
+    refreshMinutes,
+  }));
+
+export const DashboardGrid = ({ dashboard }: { dashboard: Dashboard }) => {
+  const [tiles, setTiles] = useState(dashboard.tiles);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  // Applies a layout change at once and saves it in the background
+  const updateTiles = (next: Tile[]) => {
+    const previous = tiles;
+    setTiles(next);
+    saveDashboardLayout(dashboard.id, toLayout(next)).catch(() => {
+      setTiles(previous);
+      toast.error("Could not save the dashboard layout.");
+    });
+  };
+
+  // Moves a tile to where another one is, shifting the tiles in between
+  const moveTile = (id: string, targetId: string) => {
+    const from = tiles.findIndex((tile) => tile.id === id);
+    const to = tiles.findIndex((tile) => tile.id === targetId);
+    if (from === -1 || to === -1 || from === to) return;
+    const next = [...tiles];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    updateTiles(next);
+  };
+
+  if (tiles.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-4 py-16 text-center">
+        <p className="text-muted-foreground">
+          This dashboard is empty. Ask a question and pin its chart here.
+        </p>
+        <Button asChild>
+          <Link href="/">Ask a question</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+      {tiles.map((tile) => (
+        <DashboardTile
+          key={tile.id}
+          dashboardId={dashboard.id}
+          tile={tile}
+          onChange={(changed) =>
+            updateTiles(tiles.map((tile) => (tile.id === changed.id ? changed : tile)))
+          }
+          onRemove={() => updateTiles(tiles.filter(({ id }) => id !== tile.id))}
+          dragHandlers={{
+            draggable: true,
+            onDragStart: (e) => {
+              e.dataTransfer.effectAllowed = "move";
+              setDraggedId(tile.id);
+            },
+            onDragOver: (e) => {
+              if (draggedId) e.preventDefault();
+            },
+            onDrop: (e) => {
+              e.preventDefault();
+              if (draggedId) moveTile(draggedId, tile.id);
+              setDraggedId(null);
+            },
+            onDragEnd: () => setDraggedId(null),
+          }}
+        />
+      ))}
+    </div>
+  );
+};
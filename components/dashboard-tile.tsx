@@ -0,0 +1,167 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  GripVertical,
+  Loader2,
+  Maximize2,
+  Minimize2,
+  MoveVertical,
+  RefreshCw,
+  Trash2,
+} from "lucide-react";
+import { runDashboardTile } from "@/app/actions";
+import { DashboardTile as Tile, QueryResult, TileHeight } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { DynamicChart } from "./dynamic-chart";
+import { Button } from "./ui/button";
+
+const chartHeights: Record<TileHeight, string> = {
+  sm: "h-[180px]",
+  md: "h-[260px]",
+  lg: "h-[380px]",
+};
+
+const nextHeight: Record<TileHeight, TileHeight> = { sm: "md", md: "lg", lg: "sm" };
+
+const refreshOptions = [null, 1, 5, 15, 60];
+
+export const DashboardTile = ({
+  dashboardId,
+  tile,
+  onChange,
+  onRemove,
+  dragHandlers,
+}: {
+  dashboardId: string;
+  tile: Tile;
+  onChange: (tile: Tile) => void;
+  onRemove: () => void;
+  dragHandlers: React.HTMLAttributes<HTMLDivElement>;
+}) => {
+  const [result, setResult] = useState<QueryResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshedAt, setRefreshedAt] = useState<Date | null>(null);
+
+  const refresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      setResult(await runDashboardTile(dashboardId, tile.id));
+      setError(null);
+      setRefreshedAt(new Date());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setRefreshing(false);
+    }
+  }, [dashboardId, tile.id]);
+
+  useEffect(() => {
+    refresh();
+    if (!tile.refreshMinutes) return;
+    const interval = setInterval(refresh, tile.refreshMinutes * 60_000);
+    return () => clearInterval(interval);
+  }, [refresh, tile.refreshMinutes]);
+
+  return (
+    <div
+      className={cn(
+        "flex flex-col rounded-lg border border-border bg-card p-4",
+        tile.width === 2 && "sm:col-span-2",
+      )}
+      {...dragHandlers}
+    >
+      <div className="mb-2 flex items-center gap-2">
+        <GripVertical
+          className="h-4 w-4 shrink-0 cursor-grab text-muted-foreground"
+          aria-hidden
+        />
+        <h2 className="flex-grow truncate font-semibold" title={tile.question}>
+          {tile.title}
+        </h2>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={refresh}
+          disabled={refreshing}
+        >
+          <RefreshCw className={cn("h-4 w-4", refreshing && "animate-spin")} />
+          <span className="sr-only">Refresh</span>
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="hidden h-8 w-8 sm:inline-flex"
+          onClick={() => onChange({ ...tile, width: tile.width === 1 ? 2 : 1 })}
+        >
+          {tile.width === 1 ? (
+            <Maximize2 className="h-4 w-4" />
+          ) : (
+            <Minimize2 className="h-4 w-4" />
+          )}
+          <span className="sr-only">{tile.width === 1 ? "Widen" : "Narrow"}</span>
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => onChange({ ...tile, height: nextHeight[tile.height] })}
+        >
+          <MoveVertical className="h-4 w-4" />
+          <span className="sr-only">Change height</span>
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onRemove}>
+          <Trash2 className="h-4 w-4" />
+          <span className="sr-only">Remove tile</span>
+        </Button>
+      </div>
+      <div className="flex-grow">
+        {error ? (
+          <p className="py-8 text-center text-sm text-destructive">{error}</p>
+        ) : !result ? (
+          <div className={cn("flex items-center justify-center", chartHeights[tile.height])}>
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : result.rows.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No data right now.
+          </p>
+        ) : (
+          <DynamicChart
+            chartData={result.rows}
+            fields={result.fields}
+            chartConfig={tile.chartConfig}
+            compact
+            className={chartHeights[tile.height]}
+          />
+        )}
+      </div>
+      <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {refreshedAt ? `Updated ${refreshedAt.toLocaleTimeString()}` : "Loading..."}
+        </span>
+        <label className="flex items-center gap-1">
+          Refresh
+          <select
+            value={tile.refreshMinutes ?? ""}
+            onChange={(e) =>
+              onChange({
+                ...tile,
+                refreshMinutes: e.target.value ? Number(e.target.value) : null,
+              })
+            }
+            className="rounded border border-input bg-background px-1 py-0.5"
+          >
+            {refreshOptions.map((minutes) => (
+              <option key={minutes ?? "load"} value={minutes ?? ""}>
+                {minutes ? `every ${minutes} min` : "on load"}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import { Database } from "lucide-react";
+import { DataSourceInfo } from "@/lib/types";
+
+export const DataSourceSelect = ({
+  dataSources,
+  dataSourceId,
+  setDataSourceId,
+  disabled,
+}: {
+  dataSources: DataSourceInfo[];
+  dataSourceId: string | undefined;
+  setDataSourceId: (id: string) => void;
+  disabled?: boolean;
+}) => {
+  if (dataSources.length <= 1) return null;
+
+  return (
+    <div className="relative">
+      <Database className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground pointer-events-none" />
+      <select
+        aria-label="Data source"
+        value={dataSourceId}
+        onChange={(e) => setDataSourceId(e.target.value)}
+        disabled={disabled}
+        className="h-10 w-full sm:w-48 appearance-none rounded-md border border-input bg-background pl-9 pr-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {dataSources.map((source) => (
+          <option key={source.id} value={source.id}>
+            {source.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
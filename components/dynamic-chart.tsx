@@ -1,18 +1,20 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import {
   Bar,
   BarChart,
   Line,
-  LineChart,
   Area,
-  AreaChart,
+  ComposedChart,
   Pie,
   PieChart,
   Cell,
+  Scatter,
+  ScatterChart,
   XAxis,
   YAxis,
+  ZAxis,
   CartesianGrid,
   Legend,
 } from "recharts";
@@ -21,9 +23,14 @@ import {
   ChartTooltip,
   ChartTooltipContent,
 } from "@/components/ui/chart";
-import { Config, Result } from "@/lib/types";
+import { ColumnFormat, Config, Result, ResultField, ResultValue } from "@/lib/types";
 import { Label } from "recharts";
-import { transformDataForMultiLineChart } from "@/lib/rechart-format";
+import { binValues, transformDataForMultiLineChart } from "@/lib/rechart-format";
+import { chartColors } from "@/lib/chart-config";
+import { formatValue, resolveFormat } from "@/lib/formatters";
+import { fieldsByName, isNumericKind, toNumber } from "@/lib/result-fields";
+import { cn } from "@/lib/utils";
+import { ChartImageMenu } from "./chart-image-menu";
 
 function toTitleCase(str: string): string {
   return str
@@ -31,37 +38,74 @@ function toTitleCase(str: string): string {
     .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
     .join(" ");
 }
-const colors = [
-  "hsl(var(--chart-1))",
-  "hsl(var(--chart-2))",
-  "hsl(var(--chart-3))",
-  "hsl(var(--chart-4))",
-  "hsl(var(--chart-5))",
-  "hsl(var(--chart-6))",
-  "hsl(var(--chart-7))",
-  "hsl(var(--chart-8))",
-];
+
+type ChartRow = Record<string, string | number | null>;
+
+type SeriesKind = "bar" | "line" | "area";
+
+const defaultTextFormat: ColumnFormat = { type: "text" };
+
+// Numeric columns as numbers, whatever their text form, and the other kinds
+// as labels the axes and tooltips can show
+const toChartRow = (row: Result, fields: ResultField[]): ChartRow =>
+  Object.fromEntries(
+    fields.map(({ name, kind }) => {
+      const value = row[name];
+      if (isNumericKind(kind)) return [name, toNumber(value)];
+      if (value === null || typeof value === "string" || typeof value === "number") {
+        return [name, value];
+      }
+      return [
+        name,
+        kind === "array" && Array.isArray(value) ? value.join(", ") : JSON.stringify(value),
+      ];
+    }),
+  );
+
+// Numbers sort numerically and everything else as text; nulls go last
+const sortChartRows = (
+  rows: ChartRow[],
+  { key, direction }: NonNullable<Config["sortBy"]>,
+) =>
+  [...rows].sort((a, b) => {
+    const [left, right] = [a[key], b[key]];
+    if (left === right) return 0;
+    if (left === null || left === undefined) return 1;
+    if (right === null || right === undefined) return -1;
+    const order =
+      typeof left === "number" && typeof right === "number"
+        ? left - right
+        : String(left).localeCompare(String(right));
+    return direction === "asc" ? order : -order;
+  });
 
 export function DynamicChart({
   chartData,
+  fields,
   chartConfig,
+  compact = false,
+  className,
 }: {
   chartData: Result[];
+  // Column types, so numbers are plotted as numbers and values formatted
+  fields: ResultField[];
   chartConfig: Config;
+  // Only the chart, for dashboard tiles that show the title themselves
+  compact?: boolean;
+  className?: string;
 }) {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const colorFor = (key: string, index: number) =>
+    chartConfig.colors?.[key] ?? chartColors[index % chartColors.length];
+
   const renderChart = () => {
     if (!chartData || !chartConfig) return <div>No chart data</div>;
-    const parsedChartData = chartData.map((item) => {
-      const parsedItem: { [key: string]: any } = {};
-      for (const [key, value] of Object.entries(item)) {
-        parsedItem[key] = isNaN(Number(value)) ? value : Number(value);
-      }
-      return parsedItem;
-    });
-
-    chartData = parsedChartData;
+    let chartRows = chartData.map((row) => toChartRow(row, fields));
+    if (chartConfig.sortBy) {
+      chartRows = sortChartRows(chartRows, chartConfig.sortBy);
+    }
 
-    const processChartData = (data: Result[], chartType: string) => {
+    const processChartData = (data: ChartRow[], chartType: string) => {
       if (chartType === "bar" || chartType === "pie") {
         if (data.length <= 8) {
           return data;
@@ -73,130 +117,239 @@ export function DynamicChart({
       return data;
     };
 
-    chartData = processChartData(chartData, chartConfig.type);
+    chartRows = processChartData(chartRows, chartConfig.type);
     // console.log({ chartData, chartConfig });
 
+    // Series of a multi-line chart are named after categories, and take the
+    // format of the column they measure
+    const byName = fieldsByName(fields);
+    const formatFor = (key: string) => {
+      const field =
+        byName.get(key) ?? byName.get(chartConfig.measurementColumn ?? chartConfig.yKeys[0]);
+      return field ? resolveFormat(field, chartConfig.formats) : defaultTextFormat;
+    };
+    const axisTick = (key: string) => (value: ResultValue) =>
+      formatValue(value, formatFor(key), "axis");
+    const formatTooltipValue = (value: number | string, key: string) =>
+      formatValue(value, formatFor(key), "tooltip");
+    const cartesianTooltip = (
+      <ChartTooltipContent
+        labelFormatter={(label) =>
+          formatValue(label, formatFor(chartConfig.xKey), "tooltip")
+        }
+        valueFormatter={formatTooltipValue}
+      />
+    );
+
+    // Bar, line and area series on shared axes; composed charts mix them
+    const renderCartesian = (
+      data: ChartRow[],
+      series: { key: string; kind: SeriesKind }[],
+      xLabel: string,
+    ) => {
+      const xKey = chartConfig.xKey;
+      const horizontal = chartConfig.type === "bar" && Boolean(chartConfig.horizontal);
+      const rightKeys = horizontal
+        ? []
+        : (chartConfig.rightAxisKeys ?? []).filter((key) =>
+            series.some((item) => item.key === key),
+          );
+      const axisOf = (key: string) => (rightKeys.includes(key) ? "right" : "left");
+      const leftKey = series.find(({ key }) => axisOf(key) === "left")?.key ?? series[0]?.key;
+      const stackId = chartConfig.stacked ? "stack" : undefined;
+
+      return (
+        <ComposedChart data={data} layout={horizontal ? "vertical" : "horizontal"}>
+          <CartesianGrid strokeDasharray="3 3" />
+          {horizontal ? (
+            <>
+              <XAxis type="number" tickFormatter={axisTick(leftKey)} />
+              <YAxis
+                type="category"
+                dataKey={xKey}
+                tickFormatter={axisTick(xKey)}
+                width={120}
+              />
+            </>
+          ) : (
+            <>
+              <XAxis dataKey={xKey} tickFormatter={axisTick(xKey)}>
+                <Label value={toTitleCase(xLabel)} offset={0} position="insideBottom" />
+              </XAxis>
+              <YAxis yAxisId="left" tickFormatter={axisTick(leftKey)}>
+                <Label value={toTitleCase(leftKey)} angle={-90} position="insideLeft" />
+              </YAxis>
+              {rightKeys.length > 0 && (
+                <YAxis
+                  yAxisId="right"
+                  orientation="right"
+                  tickFormatter={axisTick(rightKeys[0])}
+                >
+                  <Label
+                    value={toTitleCase(rightKeys[0])}
+                    angle={90}
+                    position="insideRight"
+                  />
+                </YAxis>
+              )}
+            </>
+          )}
+          <ChartTooltip content={cartesianTooltip} />
+          {chartConfig.legend && <Legend />}
+          {series.map(({ key, kind }, index) => {
+            const color = colorFor(key, index);
+            const axis = horizontal ? {} : { yAxisId: axisOf(key) };
+            switch (kind) {
+              case "bar":
+                return (
+                  <Bar key={key} dataKey={key} fill={color} stackId={stackId} {...axis} />
+                );
+              case "line":
+                return (
+                  <Line
+                    key={key}
+                    type="monotone"
+                    dataKey={key}
+                    stroke={color}
+                    {...axis}
+                  />
+                );
+              case "area":
+                return (
+                  <Area
+                    key={key}
+                    type="monotone"
+                    dataKey={key}
+                    fill={color}
+                    stroke={color}
+                    stackId={stackId}
+                    {...axis}
+                  />
+                );
+            }
+          })}
+        </ComposedChart>
+      );
+    };
+
+    const seriesOf = (kind: SeriesKind) =>
+      chartConfig.yKeys.map((key) => ({ key, kind }));
+
     switch (chartConfig.type) {
       case "bar":
-        return (
-          <BarChart data={chartData}>
-            <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey={chartConfig.xKey}>
-              <Label
-                value={toTitleCase(chartConfig.xKey)}
-                offset={0}
-                position="insideBottom"
-              />
-            </XAxis>
-            <YAxis>
-              <Label
-                value={toTitleCase(chartConfig.yKeys[0])}
-                angle={-90}
-                position="insideLeft"
-              />
-            </YAxis>
-            <ChartTooltip content={<ChartTooltipContent />} />
-            {chartConfig.legend && <Legend />}
-            {chartConfig.yKeys.map((key, index) => (
-              <Bar
-                key={key}
-                dataKey={key}
-                fill={colors[index % colors.length]}
-              />
-            ))}
-          </BarChart>
+        return renderCartesian(chartRows, seriesOf("bar"), chartConfig.xKey);
+      case "area":
+        return renderCartesian(chartRows, seriesOf("area"), chartConfig.xKey);
+      case "composed":
+        return renderCartesian(
+          chartRows,
+          chartConfig.yKeys.map((key) => ({
+            key,
+            kind: chartConfig.lineKeys?.includes(key) ? "line" : "bar",
+          })),
+          chartConfig.xKey,
         );
-      case "line":
+      case "line": {
         const { data, xAxisField, lineFields } = transformDataForMultiLineChart(
-          chartData,
+          chartRows,
           chartConfig,
         );
         const useTransformedData =
           chartConfig.multipleLines &&
           chartConfig.measurementColumn &&
           chartConfig.yKeys.includes(chartConfig.measurementColumn);
-        // console.log(useTransformedData, "useTransformedData");
-        // const useTransformedData = false;
+        return useTransformedData
+          ? renderCartesian(
+              data,
+              lineFields.map((key) => ({ key, kind: "line" })),
+              xAxisField,
+            )
+          : renderCartesian(chartRows, seriesOf("line"), chartConfig.xKey);
+      }
+      case "scatter": {
+        const [yKey] = chartConfig.yKeys;
         return (
-          <LineChart data={useTransformedData ? data : chartData}>
+          <ScatterChart>
             <CartesianGrid strokeDasharray="3 3" />
             <XAxis
-              dataKey={useTransformedData ? chartConfig.xKey : chartConfig.xKey}
+              type="number"
+              dataKey={chartConfig.xKey}
+              name={chartConfig.xKey}
+              tickFormatter={axisTick(chartConfig.xKey)}
             >
               <Label
-                value={toTitleCase(
-                  useTransformedData ? xAxisField : chartConfig.xKey,
-                )}
+                value={toTitleCase(chartConfig.xKey)}
                 offset={0}
                 position="insideBottom"
               />
             </XAxis>
-            <YAxis>
-              <Label
-                value={toTitleCase(chartConfig.yKeys[0])}
-                angle={-90}
-                position="insideLeft"
-              />
+            <YAxis type="number" dataKey={yKey} name={yKey} tickFormatter={axisTick(yKey)}>
+              <Label value={toTitleCase(yKey)} angle={-90} position="insideLeft" />
             </YAxis>
-            <ChartTooltip content={<ChartTooltipContent />} />
-            {chartConfig.legend && <Legend />}
-            {useTransformedData
-              ? lineFields.map((key, index) => (
-                  <Line
-                    key={key}
-                    type="monotone"
-                    dataKey={key}
-                    stroke={colors[index % colors.length]}
-                  />
-                ))
-              : chartConfig.yKeys.map((key, index) => (
-                  <Line
-                    key={key}
-                    type="monotone"
-                    dataKey={key}
-                    stroke={colors[index % colors.length]}
-                  />
-                ))}
-          </LineChart>
+            {chartConfig.sizeKey && (
+              <ZAxis
+                type="number"
+                dataKey={chartConfig.sizeKey}
+                name={chartConfig.sizeKey}
+                range={[40, 400]}
+              />
+            )}
+            <ChartTooltip
+              content={<ChartTooltipContent hideLabel valueFormatter={formatTooltipValue} />}
+            />
+            <Scatter data={chartRows} fill={colorFor(yKey, 0)} fillOpacity={0.7} />
+          </ScatterChart>
         );
-      case "area":
+      }
+      case "histogram": {
+        const xFormat = formatFor(chartConfig.xKey);
+        const values = chartRows.flatMap((row) => {
+          const value = row[chartConfig.xKey];
+          return typeof value === "number" ? [value] : [];
+        });
+        const bins = binValues(values, chartConfig.bins ?? 10).map((bin) => ({
+          range: `${formatValue(bin.start, xFormat, "axis")}–${formatValue(bin.end, xFormat, "axis")}`,
+          count: bin.count,
+        }));
         return (
-          <AreaChart data={chartData}>
+          <BarChart data={bins}>
             <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey={chartConfig.xKey} />
-            <YAxis />
-            <ChartTooltip content={<ChartTooltipContent />} />
-            {chartConfig.legend && <Legend />}
-            {chartConfig.yKeys.map((key, index) => (
-              <Area
-                key={key}
-                type="monotone"
-                dataKey={key}
-                fill={colors[index % colors.length]}
-                stroke={colors[index % colors.length]}
+            <XAxis dataKey="range">
+              <Label
+                value={toTitleCase(chartConfig.xKey)}
+                offset={0}
+                position="insideBottom"
               />
-            ))}
-          </AreaChart>
+            </XAxis>
+            <YAxis allowDecimals={false}>
+              <Label value="Count" angle={-90} position="insideLeft" />
+            </YAxis>
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="count" fill={colorFor(chartConfig.xKey, 0)} />
+          </BarChart>
         );
+      }
       case "pie":
         return (
           <PieChart>
             <Pie
-              data={chartData}
+              data={chartRows}
               dataKey={chartConfig.yKeys[0]}
               nameKey={chartConfig.xKey}
               cx="50%"
               cy="50%"
               outerRadius={120}
             >
-              {chartData.map((_, index) => (
+              {chartRows.map((_, index) => (
                 <Cell
                   key={`cell-${index}`}
-                  fill={colors[index % colors.length]}
+                  fill={chartColors[index % chartColors.length]}
                 />
               ))}
             </Pie>
-            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartTooltip
+              content={<ChartTooltipContent valueFormatter={formatTooltipValue} />}
+            />
             {chartConfig.legend && <Legend />}
           </PieChart>
         );
@@ -207,28 +360,44 @@ export function DynamicChart({
 
   return (
     <div className="w-full flex flex-col justify-center items-center">
-      <h2 className="text-lg font-bold mb-2">{chartConfig.title}</h2>
+      {!compact && (
+        <div className="relative mb-2 flex w-full justify-center">
+          <h2 className="px-28 text-center text-lg font-bold">{chartConfig.title}</h2>
+          {chartData.length > 0 && (
+            <div className="absolute right-0 top-0">
+              <ChartImageMenu
+                chart={chartRef}
+                title={chartConfig.title}
+                takeaway={chartConfig.takeaway}
+              />
+            </div>
+          )}
+        </div>
+      )}
       {chartConfig && chartData.length > 0 && (
         <ChartContainer
+          ref={chartRef}
           config={chartConfig.yKeys.reduce(
             (acc, key, index) => {
               acc[key] = {
                 label: key,
-                color: colors[index % colors.length],
+                color: colorFor(key, index),
               };
               return acc;
             },
             {} as Record<string, { label: string; color: string }>,
           )}
-          className="h-[320px] w-full"
+          className={cn("h-[320px] w-full", className)}
         >
           {renderChart()}
         </ChartContainer>
       )}
-      <div className="w-full">
-        <p className="mt-4 text-sm">{chartConfig.description}</p>
-        <p className="mt-4 text-sm">{chartConfig.takeaway}</p>
-      </div>
+      {!compact && (
+        <div className="w-full">
+          <p className="mt-4 text-sm">{chartConfig.description}</p>
+          <p className="mt-4 text-sm">{chartConfig.takeaway}</p>
+        </div>
+      )}
     </div>
   );
 }
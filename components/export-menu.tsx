@@ -0,0 +1,61 @@
+import { Download } from "lucide-react";
+import { ExportFormat } from "@/lib/export-formats";
+
+const formatLabels: Record<ExportFormat, string> = {
+  csv: "CSV",
+  json: "JSON",
+  ndjson: "NDJSON",
+  xlsx: "Excel (.xlsx)",
+  parquet: "Parquet",
+};
+
+export type ExportQuery = {
+  sql: string;
+  sourceId?: string;
+  // Used for the downloaded file's name
+  name?: string;
+};
+
+// Posts the export as a form, so the browser streams the download to disk
+const submitExport = (query: ExportQuery, format: ExportFormat) => {
+  const form = document.createElement("form");
+  form.method = "POST";
+  form.action = "/api/export";
+  const fields = { format, sql: query.sql, sourceId: query.sourceId, name: query.name };
+  for (const [name, value] of Object.entries(fields)) {
+    if (!value) continue;
+    const input = document.createElement("input");
+    input.type = "hidden";
+    input.name = name;
+    input.value = value;
+    form.appendChild(input);
+  }
+  document.body.appendChild(form);
+  form.submit();
+  form.remove();
+};
+
+// Downloads the full result, beyond the rows shown on screen
+export const ExportMenu = ({ query }: { query: ExportQuery }) => {
+  return (
+    <div className="relative">
+      <Download className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground pointer-events-none" />
+      <select
+        aria-label="Export results"
+        value=""
+        onChange={(e) => {
+          if (!e.target.value) return;
+          submitExport(query, e.target.value as ExportFormat);
+        }}
+        className="h-9 appearance-none rounded-md border border-input bg-background pl-9 pr-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+      >
+        <option value="">Export</option>
+        {(Object.keys(formatLabels) as ExportFormat[]).map((format) => (
+          <option key={format} value={format}>
+            {formatLabels[format]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -1,9 +1,18 @@
-import { Moon, Sun } from "lucide-react";
+import Link from "next/link";
+import { LayoutDashboard, Moon, Sun } from "lucide-react";
 import { DeployButton } from "./deploy-button";
 import { Button } from "./ui/button";
 import { useTheme } from "next-themes";
+import { HistoryPanel } from "./history-panel";
+import { HistoryEntry } from "@/lib/types";
 
-export const Header = ({ handleClear }: { handleClear: () => void }) => {
+export const Header = ({
+  handleClear,
+  handleRestore,
+}: {
+  handleClear: () => void;
+  handleRestore: (entry: HistoryEntry) => void;
+}) => {
   const { theme, setTheme } = useTheme();
 
   return (
@@ -15,6 +24,13 @@ export const Header = ({ handleClear }: { handleClear: () => void }) => {
         Natural Language PostgreSQL
       </h1>
       <div className="flex items-center justify-center space-x-2">
+        <HistoryPanel handleRestore={handleRestore} />
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/dashboards">
+            <LayoutDashboard className="h-5 w-5" />
+            <span className="sr-only">Dashboards</span>
+          </Link>
+        </Button>
         <Button
           variant="ghost"
           size="icon"
@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { History, Loader2, RotateCcw, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  getQueryHistoryEntry,
+  rerunHistoryEntry,
+  searchQueryHistory,
+} from "@/app/actions";
+import { HistoryEntry, HistorySummary } from "@/lib/types";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+
+const statusLabel = (entry: HistorySummary) =>
+  entry.status === "error"
+    ? "Failed"
+    : `${entry.rowCount} ${entry.rowCount === 1 ? "row" : "rows"}${entry.truncated ? "+" : ""}`;
+
+export const HistoryPanel = ({
+  handleRestore,
+}: {
+  handleRestore: (entry: HistoryEntry) => void;
+}) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [entries, setEntries] = useState<HistorySummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  // The entry being restored or re-run
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoading(true);
+    const timeout = setTimeout(() => {
+      searchQueryHistory(search)
+        .then((entries) => !cancelled && setEntries(entries))
+        .catch(() => toast.error("Could not load the query history."))
+        .finally(() => !cancelled && setLoading(false));
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [open, search]);
+
+  const handleAction = async (
+    id: string,
+    action: (id: string) => Promise<HistoryEntry>,
+  ) => {
+    setBusyId(id);
+    try {
+      handleRestore(await action(id));
+      setOpen(false);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "An error occurred.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon">
+          <History className="h-5 w-5" />
+          <span className="sr-only">Query history</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Query history</DialogTitle>
+          <DialogDescription>
+            Restore a past result as it was, or re-run its SQL against the
+            current data.
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          type="search"
+          placeholder="Search questions and SQL..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <div className="max-h-[60vh] overflow-y-auto">
+          {loading && entries.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              {search ? "No past queries match your search." : "No queries yet."}
+            </p>
+          ) : (
+            <ul className="divide-y divide-border">
+              {entries.map((entry) => (
+                <li key={entry.id} className="flex items-start gap-4 py-3">
+                  <div className="min-w-0 flex-grow">
+                    <p className="text-sm font-medium text-foreground">
+                      {entry.question}
+                    </p>
+                    <p className="truncate font-mono text-xs text-muted-foreground">
+                      {entry.sql}
+                    </p>
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {new Date(entry.createdAt).toLocaleString()} ·{" "}
+                      {statusLabel(entry)} · {entry.durationMs}ms
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busyId !== null || entry.status === "error"}
+                      onClick={() => handleAction(entry.id, getQueryHistoryEntry)}
+                    >
+                      <Undo2 className="mr-1 h-4 w-4" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busyId !== null || !entry.sql}
+                      onClick={() => handleAction(entry.id, rerunHistoryEntry)}
+                    >
+                      {busyId === entry.id ? (
+                        <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="mr-1 h-4 w-4" />
+                      )}
+                      Re-run
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Loader2, Pin } from "lucide-react";
+import { listDashboards, pinChartToDashboard } from "@/app/actions";
+import { Config } from "@/lib/types";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+
+// Select value that creates a dashboard instead of picking one
+const newDashboard = "new";
+
+export const PinToDashboardDialog = ({
+  question,
+  sql,
+  chartConfig,
+  dataSourceId,
+}: {
+  question: string;
+  sql: string;
+  chartConfig: Config;
+  dataSourceId?: string;
+}) => {
+  const [open, setOpen] = useState(false);
+  const [dashboards, setDashboards] = useState<{ id: string; name: string }[]>([]);
+  const [dashboardId, setDashboardId] = useState(newDashboard);
+  const [dashboardName, setDashboardName] = useState("");
+  const [pinning, setPinning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pinnedTo, setPinnedTo] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    listDashboards()
+      .then((dashboards) => {
+        setDashboards(dashboards);
+        if (dashboards.length > 0) setDashboardId(dashboards[0].id);
+      })
+      .catch(() => setError("Could not load dashboards."));
+  }, [open]);
+
+  const handlePin = async () => {
+    setPinning(true);
+    setError(null);
+    try {
+      const dashboard = await pinChartToDashboard({
+        ...(dashboardId === newDashboard
+          ? { dashboardName }
+          : { dashboardId }),
+        question,
+        sql,
+        sourceId: dataSourceId,
+        chartConfig,
+      });
+      setPinnedTo(dashboard.id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not pin the chart.");
+    } finally {
+      setPinning(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(open) => {
+        setOpen(open);
+        if (!open) setPinnedTo(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <Pin className="mr-1 h-4 w-4" />
+          Pin to dashboard
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Pin to dashboard</DialogTitle>
+          <DialogDescription>
+            The tile keeps this SQL and chart, and fetches fresh data whenever
+            the dashboard is opened.
+          </DialogDescription>
+        </DialogHeader>
+        {pinnedTo ? (
+          <Button asChild>
+            <Link href={`/dashboards/${pinnedTo}`}>Open dashboard</Link>
+          </Button>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handlePin();
+            }}
+            className="flex flex-col gap-4"
+          >
+            <select
+              aria-label="Dashboard"
+              value={dashboardId}
+              onChange={(e) => setDashboardId(e.target.value)}
+              className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            >
+              {dashboards.map((dashboard) => (
+                <option key={dashboard.id} value={dashboard.id}>
+                  {dashboard.name}
+                </option>
+              ))}
+              <option value={newDashboard}>New dashboard...</option>
+            </select>
+            {dashboardId === newDashboard && (
+              <Input
+                value={dashboardName}
+                onChange={(e) => setDashboardName(e.target.value)}
+                placeholder="Dashboard name"
+                aria-label="Dashboard name"
+              />
+            )}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <Button
+              type="submit"
+              disabled={
+                pinning || (dashboardId === newDashboard && !dashboardName.trim())
+              }
+            >
+              {pinning && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+              Pin chart
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
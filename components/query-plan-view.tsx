@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Flame, Loader2 } from "lucide-react";
+import { explainQueryPlan } from "@/app/actions";
+import { isMisestimated } from "@/lib/query-plan";
+import { PlanNode, QueryPlan } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { ExportQuery } from "./export-menu";
+import { Button } from "./ui/button";
+
+// Steps taking at least this share of the plan's time or cost are hotspots
+const hotspotShare = 0.25;
+
+const formatNumber = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const PlanStep = ({ node, analyzed }: { node: PlanNode; analyzed: boolean }) => {
+  const hotspot = node.selfShare >= hotspotShare;
+  return (
+    <li className="mt-2">
+      <div
+        className={cn(
+          "rounded-md border border-border p-2",
+          hotspot && "border-destructive bg-destructive/10",
+        )}
+      >
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-semibold">{node.nodeType}</span>
+          {hotspot && (
+            <span className="flex items-center gap-1 text-xs text-destructive">
+              <Flame className="h-3 w-3" />
+              {Math.round(node.selfShare * 100)}% of the {analyzed ? "time" : "cost"}
+            </span>
+          )}
+        </div>
+        {node.details.length > 0 && (
+          <p className="font-mono text-xs text-muted-foreground">{node.details.join(" · ")}</p>
+        )}
+        <div className="mt-1 flex flex-wrap gap-x-4 text-xs text-muted-foreground">
+          <span>
+            Estimated rows <span className="text-foreground">{formatNumber(node.planRows)}</span>
+          </span>
+          {node.actualRows !== null && (
+            <span className={cn(isMisestimated(node) && "text-amber-600 dark:text-amber-400")}>
+              Actual rows <span className="font-medium">{formatNumber(node.actualRows)}</span>
+              {node.loops !== null && node.loops > 1 && ` in ${formatNumber(node.loops)} loops`}
+            </span>
+          )}
+          <span>
+            Cost {formatNumber(node.startupCost)}–{formatNumber(node.totalCost)}
+          </span>
+          {node.actualTimeMs !== null && <span>Time {formatNumber(node.actualTimeMs)} ms</span>}
+        </div>
+      </div>
+      {node.children.length > 0 && (
+        <ul className="ml-4 border-l border-border pl-3">
+          {node.children.map((child, index) => (
+            <PlanStep key={index} node={child} analyzed={analyzed} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+// The plan Postgres uses for the query, as a tree of steps with the costliest
+// ones highlighted
+export const QueryPlanView = ({ query }: { query: ExportQuery }) => {
+  const { sql, sourceId } = query;
+  const [analyze, setAnalyze] = useState(false);
+  const [plan, setPlan] = useState<QueryPlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    explainQueryPlan(sql, sourceId, analyze)
+      .then((plan) => !cancelled && setPlan(plan))
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : String(e)))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [sql, sourceId, analyze]);
+
+  return (
+    <div className="mt-4 flex flex-col gap-2 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="flex items-center gap-2 text-muted-foreground">
+          {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+          {plan?.analyzed
+            ? `Planning ${formatNumber(plan.planningTimeMs ?? 0)} ms, execution ${formatNumber(plan.executionTimeMs ?? 0)} ms`
+            : plan
+              ? `Estimated total cost ${formatNumber(plan.root.totalCost)}`
+              : "Explaining query..."}
+        </p>
+        <Button variant="outline" size="sm" disabled={loading} onClick={() => setAnalyze(!analyze)}>
+          {analyze ? "Show estimates only" : "Run with ANALYZE"}
+        </Button>
+      </div>
+      {analyze && (
+        <p className="text-xs text-muted-foreground">
+          ANALYZE runs the query to measure it, read-only and under the usual time limit.
+        </p>
+      )}
+      {error ? (
+        <p className="py-8 text-center text-muted-foreground">{error}</p>
+      ) : (
+        plan && (
+          <ul>
+            <PlanStep node={plan.root} analyzed={plan.analyzed} />
+          </ul>
+        )
+      )}
+    </div>
+  );
+};
@@ -1,16 +1,50 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "./ui/button";
 import { QueryWithTooltips } from "./ui/query-with-tooltips";
+import { SqlEditor } from "./sql-editor";
 import { explainQuery } from "@/app/actions";
 import { QueryExplanation } from "@/lib/types";
-import { CircleHelp, Loader2 } from "lucide-react";
+import { diffWords } from "@/lib/text-diff";
+import { CircleHelp, GitCompare, Loader2, Pencil, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+
+const diffClasses = {
+  same: "",
+  added: "bg-green-500/20 text-green-800 dark:text-green-300",
+  removed: "bg-destructive/20 text-destructive line-through",
+};
+
+// The generated query against the edited one, word by word
+const QueryDiff = ({ before, after }: { before: string; after: string }) => (
+  <span className="whitespace-pre-wrap">
+    {diffWords(before, after).map((part, index) => (
+      <span key={index} className={diffClasses[part.type]}>
+        {part.text}
+      </span>
+    ))}
+  </span>
+);
 
 export const QueryViewer = ({
   activeQuery,
   inputValue,
+  dataSourceId,
+  explanations,
+  streaming = false,
+  originalQuery,
+  onRun,
 }: {
   activeQuery: string;
   inputValue: string;
+  dataSourceId?: string;
+  // Explanations already generated by the pipeline, shown without another model call
+  explanations?: QueryExplanation[] | null;
+  // True while the query is still being generated
+  streaming?: boolean;
+  // The generated query, when the user has edited it
+  originalQuery?: string | null;
+  // Runs an edited query in place of this one; editing is off without it
+  onRun?: (sql: string) => Promise<void>;
 }) => {
   const activeQueryCutoff = 100;
 
@@ -19,72 +53,176 @@ export const QueryViewer = ({
   >();
   const [loadingExplanation, setLoadingExplanation] = useState(false);
   const [queryExpanded, setQueryExpanded] = useState(activeQuery.length > activeQueryCutoff);
+  const [editing, setEditing] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+
+  // Explanations of an earlier version of the query no longer apply
+  useEffect(() => {
+    setQueryExplanations(null);
+  }, [activeQuery]);
 
   const handleExplainQuery = async () => {
     setQueryExpanded(true);
+    if (explanations) {
+      setQueryExplanations(explanations);
+      return;
+    }
     setLoadingExplanation(true);
-    const { explanations } = await explainQuery(inputValue, activeQuery);
-    setQueryExplanations(explanations);
-    setLoadingExplanation(false);
+    try {
+      const result = await explainQuery(inputValue, activeQuery, dataSourceId);
+      setQueryExplanations(result.explanations);
+    } catch (e) {
+      toast.error("Could not explain the query.");
+    } finally {
+      setLoadingExplanation(false);
+    }
+  };
+
+  const handleRunEdited = async (sql: string) => {
+    if (!onRun) return;
+    await onRun(sql);
+    setEditing(false);
+    setRestoreError(null);
+    setQueryExpanded(true);
+  };
+
+  const handleRestore = async () => {
+    if (!onRun || !originalQuery) return;
+    setRestoring(true);
+    setRestoreError(null);
+    try {
+      await onRun(originalQuery);
+      setShowDiff(false);
+    } catch (e) {
+      setRestoreError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setRestoring(false);
+    }
   };
 
   if (activeQuery.length === 0) return null;
 
+  if (editing && onRun) {
+    return (
+      <div className="mb-4">
+        <SqlEditor
+          initialSql={activeQuery}
+          dataSourceId={dataSourceId}
+          onRun={handleRunEdited}
+          onCancel={() => setEditing(false)}
+        />
+      </div>
+    );
+  }
+
+  const edited = Boolean(originalQuery) && originalQuery !== activeQuery;
+
   return (
-    <div className="mb-4 relative group">
-      <div
-        className={`bg-muted rounded-md p-4 ${queryExpanded ? "" : "text-muted-foreground"}`}
-      >
-        <div className="font-mono text-sm">
-          {queryExpanded ? (
-            queryExplanations && queryExplanations.length > 0 ? (
-              <>
-                <QueryWithTooltips
-                  query={activeQuery}
-                  queryExplanations={queryExplanations}
-                />
-                <p className="font-sans mt-4 text-base">
-                  Generated explanation! Hover over different parts of the SQL
-                  query to see explanations.
-                </p>
-              </>
+    <div className="mb-4">
+      <div className="relative group">
+        <div
+          className={`bg-muted rounded-md p-4 ${queryExpanded ? "" : "text-muted-foreground"}`}
+        >
+          <div className="font-mono text-sm">
+            {edited && showDiff && originalQuery ? (
+              <QueryDiff before={originalQuery} after={activeQuery} />
+            ) : streaming ? (
+              <span className="whitespace-pre-wrap">
+                {activeQuery}
+                <span className="animate-pulse">▍</span>
+              </span>
+            ) : queryExpanded ? (
+              queryExplanations && queryExplanations.length > 0 ? (
+                <>
+                  <QueryWithTooltips
+                    query={activeQuery}
+                    queryExplanations={queryExplanations}
+                  />
+                  <p className="font-sans mt-4 text-base">
+                    Generated explanation! Hover over different parts of the SQL
+                    query to see explanations.
+                  </p>
+                </>
+              ) : (
+                <div className="flex justify-between items-center">
+                  <span className="">{activeQuery}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={handleExplainQuery}
+                    className="h-fit hover:text-muted-foreground hidden sm:inline-block"
+                    aria-label="Explain query"
+                    disabled={loadingExplanation}
+                  >
+                    {loadingExplanation ? (
+                      <Loader2 className="h-10 w-10 p-2 animate-spin " />
+                    ) : (
+                      <CircleHelp className="h-10 w-10 p-2 " />
+                    )}
+                  </Button>
+                </div>
+              )
             ) : (
-              <div className="flex justify-between items-center">
-                <span className="">{activeQuery}</span>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={handleExplainQuery}
-                  className="h-fit hover:text-muted-foreground hidden sm:inline-block"
-                  aria-label="Explain query"
-                  disabled={loadingExplanation}
-                >
-                  {loadingExplanation ? (
-                    <Loader2 className="h-10 w-10 p-2 animate-spin " />
+              <span>
+                {activeQuery.slice(0, activeQueryCutoff)}
+                {activeQuery.length > activeQueryCutoff ? "..." : ""}
+              </span>
+            )}
+          </div>
+        </div>
+        {!queryExpanded && !streaming && (
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => setQueryExpanded(true)}
+            className="absolute inset-0 h-full opacity-0 group-hover:opacity-100 transition-opacity duration-300 ease-in-out"
+          >
+            Show full query
+          </Button>
+        )}
+      </div>
+      {!streaming && (onRun || edited) && (
+        <div className="mt-2 flex flex-wrap items-center justify-end gap-2">
+          {edited && (
+            <>
+              <span className="mr-auto rounded-md bg-secondary px-2 py-0.5 text-xs text-secondary-foreground">
+                Edited
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setShowDiff(!showDiff);
+                  setQueryExpanded(true);
+                }}
+                aria-pressed={showDiff}
+              >
+                <GitCompare className="mr-2 h-4 w-4" />
+                {showDiff ? "Hide diff" : "Show diff"}
+              </Button>
+              {onRun && (
+                <Button variant="ghost" size="sm" onClick={handleRestore} disabled={restoring}>
+                  {restoring ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   ) : (
-                    <CircleHelp className="h-10 w-10 p-2 " />
+                    <Undo2 className="mr-2 h-4 w-4" />
                   )}
+                  Restore original
                 </Button>
-              </div>
-            )
-          ) : (
-            <span>
-              {activeQuery.slice(0, activeQueryCutoff)}
-              {activeQuery.length > activeQueryCutoff ? "..." : ""}
-            </span>
+              )}
+            </>
+          )}
+          {onRun && (
+            <Button variant="ghost" size="sm" onClick={() => setEditing(true)}>
+              <Pencil className="mr-2 h-4 w-4" />
+              Edit SQL
+            </Button>
           )}
         </div>
-      </div>
-      {!queryExpanded && (
-        <Button
-          variant="secondary"
-          size="sm"
-          onClick={() => setQueryExpanded(true)}
-          className="absolute inset-0 h-full opacity-0 group-hover:opacity-100 transition-opacity duration-300 ease-in-out"
-        >
-          Show full query
-        </Button>
       )}
+      {restoreError && <p className="mt-2 text-sm text-destructive">{restoreError}</p>}
     </div>
   );
 };
@@ -0,0 +1,37 @@
+import { CheckCircle2, Wrench, XCircle } from "lucide-react";
+import { QueryAttempt } from "@/lib/types";
+
+export const RepairAttempts = ({ attempts }: { attempts: QueryAttempt[] }) => {
+  // A single attempt means nothing was repaired
+  if (attempts.length <= 1) return null;
+
+  return (
+    <div className="mb-4 rounded-md border border-border p-4">
+      <p className="flex items-center gap-2 text-sm font-medium text-foreground mb-3">
+        <Wrench className="h-4 w-4" />
+        The generated query failed and was repaired {attempts.length - 1}{" "}
+        {attempts.length === 2 ? "time" : "times"}
+      </p>
+      <ol className="space-y-3">
+        {attempts.map((attempt, index) => (
+          <li key={index} className="text-sm">
+            <div className="flex items-center gap-2 text-muted-foreground">
+              {attempt.error ? (
+                <XCircle className="h-4 w-4 text-destructive" />
+              ) : (
+                <CheckCircle2 className="h-4 w-4 text-primary" />
+              )}
+              <span>
+                Attempt {index + 1}
+                {attempt.error ? ` failed: ${attempt.error.message}` : " succeeded"}
+              </span>
+            </div>
+            <pre className="mt-1 ml-6 whitespace-pre-wrap break-words rounded bg-muted p-2 font-mono text-xs">
+              {attempt.sql}
+            </pre>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
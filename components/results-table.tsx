@@ -0,0 +1,291 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { runGenerateSQLQuery } from "@/app/actions";
+import { applyPageRequest, parseFilterInput } from "@/lib/result-view";
+import { formatValue, linkFor, resolveFormat } from "@/lib/formatters";
+import { isNumericKind } from "@/lib/result-fields";
+import {
+  ColumnFormats,
+  Result,
+  ResultField,
+  ResultFilter,
+  ResultPageRequest,
+  ResultSort,
+} from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { ExportQuery } from "./export-menu";
+import { Button } from "./ui/button";
+import {
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+  Table,
+} from "./ui/table";
+
+const pageSizes = [25, 50, 100];
+
+const formatColumnTitle = (title: string) => {
+  return title
+    .split("_")
+    .map((word, index) =>
+      index === 0 ? word.charAt(0).toUpperCase() + word.slice(1) : word,
+    )
+    .join(" ");
+};
+
+// Clicking a header sorts by it ascending, then descending, then not at all;
+// shift-click keeps the other sorted columns as tie-breakers
+const toggleSort = (sort: ResultSort[], column: string, keepOthers: boolean) => {
+  const current = sort.find((item) => item.column === column);
+  const others = keepOthers ? sort.filter((item) => item.column !== column) : [];
+  if (!current) return [...others, { column, direction: "asc" as const }];
+  if (current.direction === "asc") {
+    return keepOthers
+      ? sort.map((item) =>
+          item.column === column ? { column, direction: "desc" as const } : item,
+        )
+      : [{ column, direction: "desc" as const }];
+  }
+  return others;
+};
+
+/**
+ * Sortable, filterable and paged table of query results. Complete results are
+ * handled in the browser; when the result was truncated and its query is
+ * known, every page is fetched from the database instead, so sorting and
+ * filtering cover all rows rather than the ones that were loaded.
+ */
+export const ResultsTable = ({
+  results,
+  fields,
+  formats,
+  truncated,
+  query,
+}: {
+  results: Result[];
+  fields: ResultField[];
+  // Formats chosen for particular columns; the rest follow their types
+  formats?: ColumnFormats;
+  truncated: boolean;
+  query?: ExportQuery;
+}) => {
+  const [sort, setSort] = useState<ResultSort[]>([]);
+  const [filterInputs, setFilterInputs] = useState<Record<string, string>>({});
+  const [offset, setOffset] = useState(0);
+  const [pageSize, setPageSize] = useState(pageSizes[0]);
+  const [serverPage, setServerPage] = useState<{ rows: Result[]; totalRows: number } | null>(
+    null,
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const serverSide = truncated && Boolean(query);
+  const { sql, sourceId } = query ?? {};
+
+  const filters = useMemo(
+    () =>
+      Object.entries(filterInputs)
+        .map(([column, input]) => parseFilterInput(column, input))
+        .filter((filter): filter is ResultFilter => filter !== null),
+    [filterInputs],
+  );
+
+  const request: ResultPageRequest = useMemo(
+    () => ({ offset, limit: pageSize, sort, filters }),
+    [offset, pageSize, sort, filters],
+  );
+
+  const clientPage = useMemo(
+    () => (serverSide ? null : applyPageRequest(results, fields, request)),
+    [serverSide, results, fields, request],
+  );
+
+  useEffect(() => {
+    if (!serverSide || !sql) return;
+    let cancelled = false;
+    // Waits for typing in a filter to pause before querying
+    const timeout = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const result = await runGenerateSQLQuery(sql, sourceId, request);
+        if (cancelled) return;
+        setServerPage({ rows: result.rows, totalRows: result.page?.totalRows ?? 0 });
+        setError(null);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [serverSide, sql, sourceId, request]);
+
+  // Until the first page arrives, the loaded rows stand in for it
+  const page = clientPage ??
+    serverPage ?? {
+      rows: results.slice(0, pageSize),
+      totalRows: results.length,
+    };
+  const lastRow = Math.min(offset + page.rows.length, page.totalRows);
+
+  const updateFilter = (column: string, input: string) => {
+    setFilterInputs((inputs) => ({ ...inputs, [column]: input }));
+    setOffset(0);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="sm:min-h-[10px] relative">
+        <Table className="min-w-full divide-y divide-border">
+          <TableHeader className="bg-secondary sticky top-0 shadow-sm">
+            <TableRow>
+              {fields.map(({ name: column, typeName }, index) => {
+                const sorted = sort.find((item) => item.column === column);
+                return (
+                  <TableHead
+                    key={index}
+                    aria-sort={
+                      sorted ? (sorted.direction === "asc" ? "ascending" : "descending") : "none"
+                    }
+                    className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider"
+                  >
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        setSort((sort) => toggleSort(sort, column, e.shiftKey));
+                        setOffset(0);
+                      }}
+                      title={typeName}
+                      className="flex items-center gap-1 uppercase tracking-wider hover:text-foreground"
+                    >
+                      {formatColumnTitle(column)}
+                      {sorted?.direction === "asc" && <ArrowUp className="h-3 w-3" />}
+                      {sorted?.direction === "desc" && <ArrowDown className="h-3 w-3" />}
+                    </button>
+                  </TableHead>
+                );
+              })}
+            </TableRow>
+            <TableRow>
+              {fields.map(({ name: column }, index) => (
+                <TableHead key={index} className="px-6 pb-2">
+                  <input
+                    value={filterInputs[column] ?? ""}
+                    onChange={(e) => updateFilter(column, e.target.value)}
+                    placeholder="Filter"
+                    title='Text to match, or a comparison such as "> 10"'
+                    aria-label={`Filter ${formatColumnTitle(column)}`}
+                    className="h-7 w-full min-w-[6rem] rounded border border-input bg-background px-2 text-xs font-normal normal-case text-foreground"
+                  />
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody
+            className={cn("bg-card divide-y divide-border", loading && "opacity-60")}
+          >
+            {error ? (
+              <TableRow>
+                <TableCell colSpan={fields.length} className="text-center py-4 text-destructive">
+                  {error}
+                </TableCell>
+              </TableRow>
+            ) : page.rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={fields.length} className="text-center py-4 text-muted-foreground">
+                  No results found
+                </TableCell>
+              </TableRow>
+            ) : (
+              page.rows.map((row, index) => (
+                <TableRow key={index} className="hover:bg-muted">
+                  {fields.map((field, cellIndex) => {
+                    const format = resolveFormat(field, formats);
+                    const text = formatValue(row[field.name], format);
+                    const href = linkFor(row[field.name], format);
+                    return (
+                      <TableCell
+                        key={cellIndex}
+                        className={cn(
+                          "px-6 py-4 whitespace-nowrap text-sm text-foreground",
+                          isNumericKind(field.kind) && "text-right tabular-nums",
+                        )}
+                      >
+                        {href ? (
+                          <a
+                            href={href}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="underline underline-offset-2 hover:text-primary"
+                          >
+                            {text}
+                          </a>
+                        ) : (
+                          text
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+        <span className="flex items-center gap-2">
+          {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+          {page.totalRows === 0
+            ? "No rows"
+            : `Rows ${offset + 1}–${lastRow} of ${page.totalRows}`}
+        </span>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1">
+            Rows per page
+            <select
+              value={pageSize}
+              onChange={(e) => {
+                setPageSize(Number(e.target.value));
+                setOffset(0);
+              }}
+              className="rounded border border-input bg-background px-1 py-0.5"
+            >
+              {pageSizes.map((size) => (
+                <option key={size} value={size}>
+                  {size}
+                </option>
+              ))}
+            </select>
+          </label>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            disabled={offset === 0}
+            onClick={() => setOffset(Math.max(0, offset - pageSize))}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous page</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            disabled={offset + pageSize >= page.totalRows}
+            onClick={() => setOffset(offset + pageSize)}
+          >
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next page</span>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
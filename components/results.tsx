@@ -1,126 +1,129 @@
 "use client";
 
-import { Config, Result, Unicorn } from "@/lib/types";
+import { useState } from "react";
+import { SlidersHorizontal } from "lucide-react";
+import { defaultChartConfig } from "@/lib/chart-config";
+import { Config, Result, ResultField } from "@/lib/types";
+import { ChartEditor } from "./chart-editor";
 import { DynamicChart } from "./dynamic-chart";
+import { ExportMenu, ExportQuery } from "./export-menu";
+import { QueryPlanView } from "./query-plan-view";
 import { SkeletonCard } from "./skeleton-card";
-import {
-  TableHeader,
-  TableRow,
-  TableHead,
-  TableBody,
-  TableCell,
-  Table,
-} from "./ui/table";
+import { ResultsTable } from "./results-table";
+import { Button } from "./ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 
+export type ResultsView = "table" | "charts" | "plan";
+
 const Results = ({
   results,
-  columns,
+  fields,
   chartConfig,
+  truncated = false,
+  view = "table",
+  onViewChange,
+  query,
+  onChartConfigChange,
 }: {
   results: Result[];
-  columns: string[];
+  fields: ResultField[];
   chartConfig: Config | null;
+  truncated?: boolean;
+  // The tab shown first, and a callback for keeping it in the URL
+  view?: ResultsView;
+  onViewChange?: (view: ResultsView) => void;
+  // The query behind the results, for downloading them in full and paging
+  // through truncated results in the database
+  query?: ExportQuery;
+  // Makes the chart editable; called with every valid edit
+  onChartConfigChange?: (config: Config) => void;
 }) => {
-  const formatColumnTitle = (title: string) => {
-    return title
-      .split("_")
-      .map((word, index) =>
-        index === 0 ? word.charAt(0).toUpperCase() + word.slice(1) : word,
-      )
-      .join(" ");
-  };
-
-  const formatCellValue = (column: string, value: any) => {
-    if (column.toLowerCase().includes("valuation")) {
-      const parsedValue = parseFloat(value);
-      if (isNaN(parsedValue)) {
-        return "";
-      }
-      const formattedValue = parsedValue.toFixed(2);
-      const trimmedValue = formattedValue.replace(/\.?0+$/, "");
-      return `$${trimmedValue}B`;
-    }
-    if (column.toLowerCase().includes("rate")) {
-      const parsedValue = parseFloat(value);
-      if (isNaN(parsedValue)) {
-        return "";
-      }
-      const percentage = (parsedValue * 100).toFixed(2);
-      return `${percentage}%`;
-    }
-    if (value instanceof Date) {
-      return value.toLocaleDateString();
-    }
-    return String(value);
-  };
+  const [editing, setEditing] = useState(false);
+  // Without a suggested chart, editing starts from a plain bar chart
+  const editableConfig = chartConfig ?? defaultChartConfig(fields);
 
   return (
     <div className="flex-grow flex flex-col">
-      <Tabs defaultValue="table" className="w-full flex-grow flex flex-col">
-        <TabsList className="grid w-full grid-cols-2">
-          <TabsTrigger value="table">Table</TabsTrigger>
-          <TabsTrigger
-            value="charts"
-            disabled={
-              Object.keys(results[0] || {}).length <= 1 || results.length < 2
-            }
-          >
-            Chart
-          </TabsTrigger>
-        </TabsList>
+      <Tabs
+        defaultValue={view}
+        onValueChange={(value) => onViewChange?.(value as ResultsView)}
+        className="w-full flex-grow flex flex-col"
+      >
+        <div className="flex items-center gap-2">
+          <TabsList className={`grid flex-grow ${query ? "grid-cols-3" : "grid-cols-2"}`}>
+            <TabsTrigger value="table">Table</TabsTrigger>
+            <TabsTrigger
+              value="charts"
+              disabled={
+                // A histogram needs just the one column it bins
+                (fields.length <= 1 && chartConfig?.type !== "histogram") ||
+                results.length < 2
+              }
+            >
+              Chart
+            </TabsTrigger>
+            {query && <TabsTrigger value="plan">Plan</TabsTrigger>}
+          </TabsList>
+          {query && <ExportMenu query={query} />}
+        </div>
 
         <TabsContent value="table" className="flex-grow">
-          <div className="sm:min-h-[10px] relative">
-            <Table className="min-w-full divide-y divide-border">
-              <TableHeader className="bg-secondary sticky top-0 shadow-sm">
-                <TableRow>
-                  {columns.map((column, index) => (
-                    <TableHead
-                      key={index}
-                      className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider"
-                    >
-                      {formatColumnTitle(column)}
-                    </TableHead>
-                  ))}
-                </TableRow>
-              </TableHeader>
-              <TableBody className="bg-card divide-y divide-border">
-                {results.length === 0 ? (
-                  <TableRow>
-                    <TableCell colSpan={columns.length} className="text-center py-4 text-muted-foreground">
-                      No results found
-                    </TableCell>
-                  </TableRow>
-                ) : (
-                  results.map((company, index) => (
-                  <TableRow key={index} className="hover:bg-muted">
-                    {columns.map((column, cellIndex) => (
-                      <TableCell
-                        key={cellIndex}
-                        className="px-6 py-4 whitespace-nowrap text-sm text-foreground"
-                      >
-                        {formatCellValue(
-                          column,
-                          company[column as keyof Unicorn],
-                        )}
-                      </TableCell>
-                    ))}
-                  </TableRow>
-                )))}
-              </TableBody>
-            </Table>
-          </div>
+          {truncated && (
+            <p className="mb-2 text-sm text-muted-foreground">
+              {query
+                ? "The result is larger than the rows loaded here, so sorting, filtering and paging run in the database. Export it to get every row."
+                : `Showing the first ${results.length} rows. The full result was larger and has been truncated.`}
+            </p>
+          )}
+          <ResultsTable
+            results={results}
+            fields={fields}
+            formats={chartConfig?.formats}
+            truncated={truncated}
+            query={query}
+          />
         </TabsContent>
         <TabsContent value="charts" className="flex-grow overflow-auto">
-          <div className="mt-4">
+          {onChartConfigChange && editableConfig && (
+            <div className="mt-2 flex justify-end">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  if (!editing && !chartConfig) onChartConfigChange(editableConfig);
+                  setEditing(!editing);
+                }}
+              >
+                <SlidersHorizontal className="mr-1 h-4 w-4" />
+                {editing ? "Close editor" : "Edit chart"}
+              </Button>
+            </div>
+          )}
+          <div
+            className={
+              editing ? "mt-4 grid gap-4 lg:grid-cols-[minmax(0,1fr)_18rem]" : "mt-4"
+            }
+          >
             {chartConfig && results.length > 0 ? (
-              <DynamicChart chartData={results} chartConfig={chartConfig} />
+              <DynamicChart chartData={results} fields={fields} chartConfig={chartConfig} />
             ) : (
               <SkeletonCard />
             )}
+            {editing && onChartConfigChange && editableConfig && (
+              <ChartEditor
+                config={editableConfig}
+                fields={fields}
+                rows={results}
+                onChange={onChartConfigChange}
+              />
+            )}
           </div>
         </TabsContent>
+        {query && (
+          <TabsContent value="plan" className="flex-grow">
+            <QueryPlanView query={query} />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -0,0 +1,108 @@
+"use client";
+
+import { useState } from "react";
+import { Bookmark, Check, Copy, Loader2 } from "lucide-react";
+import { saveNamedQuery } from "@/app/actions";
+import { Config } from "@/lib/types";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+
+export const SaveQueryDialog = ({
+  question,
+  sql,
+  chartConfig,
+  dataSourceId,
+}: {
+  question: string;
+  sql: string;
+  chartConfig: Config | null;
+  dataSourceId?: string;
+}) => {
+  const [name, setName] = useState(question);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [link, setLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await saveNamedQuery({
+        name,
+        question,
+        sql,
+        sourceId: dataSourceId,
+        chartConfig,
+      });
+      setLink(`${window.location.origin}/q/${saved.id}`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not save the query.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!link) return;
+    await navigator.clipboard.writeText(link);
+    setCopied(true);
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <Bookmark className="mr-1 h-4 w-4" />
+          Save
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save query</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can open this analysis. It runs the saved SQL
+            against the current data.
+          </DialogDescription>
+        </DialogHeader>
+        {link ? (
+          <div className="flex gap-2">
+            <Input readOnly value={link} onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" onClick={handleCopy}>
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              <span className="sr-only">Copy link</span>
+            </Button>
+          </div>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+            className="flex flex-col gap-4"
+          >
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name"
+              aria-label="Name"
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <Button type="submit" disabled={saving || !name.trim()}>
+              {saving && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+              Save and get link
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import { runGenerateSQLQuery, updateSavedQueryChart } from "@/app/actions";
+import { Config, QueryResult, SavedQuery } from "@/lib/types";
+import Results, { ResultsView } from "./results";
+import { QueryViewer } from "./query-viewer";
+import { Button } from "./ui/button";
+import { PinToDashboardDialog } from "./pin-to-dashboard-dialog";
+
+export const SavedQueryView = ({
+  savedQuery,
+  initialView,
+}: {
+  savedQuery: SavedQuery;
+  initialView: ResultsView;
+}) => {
+  const [result, setResult] = useState<QueryResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The chart as last saved, and as edited since
+  const [savedChart, setSavedChart] = useState(savedQuery.chartConfig);
+  const [chartConfig, setChartConfig] = useState(savedQuery.chartConfig);
+  const [savingChart, setSavingChart] = useState(false);
+  const [chartError, setChartError] = useState<string | null>(null);
+
+  // Runs the stored SQL against current data; the model is never called
+  useEffect(() => {
+    let cancelled = false;
+    runGenerateSQLQuery(savedQuery.sql, savedQuery.sourceId)
+      .then((result) => !cancelled && setResult(result))
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : String(e)));
+    return () => {
+      cancelled = true;
+    };
+  }, [savedQuery]);
+
+  // Keeps the open tab in the URL so the link restores the same view
+  const handleViewChange = (view: ResultsView) => {
+    const url = new URL(window.location.href);
+    if (view === "table") {
+      url.searchParams.delete("view");
+    } else {
+      url.searchParams.set("view", view);
+    }
+    window.history.replaceState(null, "", url);
+  };
+
+  const handleSaveChart = async (config: Config) => {
+    setSavingChart(true);
+    setChartError(null);
+    try {
+      await updateSavedQueryChart(savedQuery.id, config);
+      setSavedChart(config);
+    } catch (e) {
+      setChartError(e instanceof Error ? e.message : "Could not save the chart.");
+    } finally {
+      setSavingChart(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-foreground">
+            {savedQuery.name}
+          </h1>
+          <p className="mt-1 text-muted-foreground">{savedQuery.question}</p>
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          {chartConfig && chartConfig !== savedChart && (
+            <Button onClick={() => handleSaveChart(chartConfig)} disabled={savingChart}>
+              {savingChart && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+              Save chart
+            </Button>
+          )}
+          {chartConfig && (
+            <PinToDashboardDialog
+              question={savedQuery.question}
+              sql={savedQuery.sql}
+              chartConfig={chartConfig}
+              dataSourceId={savedQuery.sourceId}
+            />
+          )}
+          <Button variant="outline" asChild>
+            <Link href="/">Ask a question</Link>
+          </Button>
+        </div>
+      </div>
+      {chartError && <p className="mb-4 text-sm text-destructive">{chartError}</p>}
+      <QueryViewer
+        activeQuery={savedQuery.sql}
+        inputValue={savedQuery.question}
+        dataSourceId={savedQuery.sourceId}
+      />
+      {error ? (
+        <p className="py-8 text-center text-muted-foreground">{error}</p>
+      ) : !result ? (
+        <div className="flex flex-col items-center justify-center space-y-4 py-8">
+          <Loader2 className="h-12 w-12 animate-spin text-muted-foreground" />
+          <p className="text-foreground">Running SQL query...</p>
+        </div>
+      ) : (
+        <Results
+          results={result.rows}
+          fields={result.fields}
+          chartConfig={chartConfig}
+          onChartConfigChange={setChartConfig}
+          truncated={result.truncated}
+          view={initialView}
+          onViewChange={handleViewChange}
+          query={{
+            sql: savedQuery.sql,
+            sourceId: savedQuery.sourceId,
+            name: savedQuery.name,
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import { Search as SearchIcon } from "lucide-react";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
+import { DataSourceSelect } from "./data-source-select";
+import { DataSourceInfo } from "@/lib/types";
 
 export const Search = ({
   handleSubmit,
@@ -8,12 +10,18 @@ export const Search = ({
   setInputValue,
   submitted,
   handleClear,
+  dataSources,
+  dataSourceId,
+  setDataSourceId,
 }: {
   handleSubmit: () => Promise<void>;
   inputValue: string;
   setInputValue: React.Dispatch<React.SetStateAction<string>>;
   submitted: boolean;
   handleClear: () => void;
+  dataSources: DataSourceInfo[];
+  dataSourceId: string | undefined;
+  setDataSourceId: (id: string) => void;
 }) => {
   return (
     <form
@@ -24,10 +32,20 @@ export const Search = ({
       className="mb-6"
     >
       <div className="flex flex-col sm:flex-row items-stretch sm:items-center space-y-4 sm:space-y-0 sm:space-x-4">
+        <DataSourceSelect
+          dataSources={dataSources}
+          dataSourceId={dataSourceId}
+          setDataSourceId={setDataSourceId}
+          disabled={submitted}
+        />
         <div className="relative flex-grow">
           <Input
             type="text"
-            placeholder="Ask about startup unicorns..."
+            placeholder={
+              submitted
+                ? "Ask a follow-up question..."
+                : "Ask about startup unicorns..."
+            }
             value={inputValue}
             onChange={(e) => setInputValue(e.target.value)}
             className="pr-10 text-base"
@@ -35,7 +53,7 @@ export const Search = ({
           <SearchIcon className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" />
         </div>
         <div className="flex sm:flex-row items-center justify-center gap-2">
-          {submitted ? (
+          {submitted && (
             <Button
               type="button"
               variant="outline"
@@ -44,11 +62,10 @@ export const Search = ({
             >
               Clear
             </Button>
-          ) : (
-            <Button type="submit" className="w-full sm:w-auto">
-              Send
-            </Button>
           )}
+          <Button type="submit" className="w-full sm:w-auto">
+            Send
+          </Button>
         </div>
       </div>
     </form>
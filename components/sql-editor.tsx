@@ -0,0 +1,308 @@
+"use client";
+
+import { KeyboardEvent, useEffect, useMemo, useRef, useState } from "react";
+import { Loader2, Play } from "lucide-react";
+import { getEditorSchema, validateSQLQuery } from "@/app/actions";
+import { Completion, completeSql } from "@/lib/sql-completion";
+import { SqlTokenType, tokenizeSql } from "@/lib/sql-highlight";
+import { EditorTable, SqlValidationIssue } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { Button } from "./ui/button";
+
+const tokenClasses: Record<SqlTokenType, string> = {
+  keyword: "text-blue-600 dark:text-blue-400",
+  function: "text-purple-600 dark:text-purple-400",
+  identifier: "text-foreground",
+  string: "text-green-700 dark:text-green-400",
+  number: "text-amber-600 dark:text-amber-400",
+  comment: "text-muted-foreground",
+  operator: "text-muted-foreground",
+  text: "",
+};
+
+// How long typing has to pause before the query is checked
+const validationDelayMs = 400;
+// Suggestions shown at once; typing narrows them down
+const maxSuggestions = 50;
+
+// The editor's layers share these so their text lines up exactly
+const layerClasses =
+  "m-0 whitespace-pre p-3 font-mono text-sm leading-6 [tab-size:2]";
+
+type Issue = SqlValidationIssue & { location: { start: number; end: number } };
+
+// The issues that point at a part of the query, in order and not overlapping
+const locatedIssues = (issues: SqlValidationIssue[]) =>
+  issues
+    .filter((issue): issue is Issue => issue.location !== undefined)
+    .sort((a, b) => a.location.start - b.location.start)
+    .reduce<Issue[]>((kept, issue) => {
+      const last = kept[kept.length - 1];
+      if (!last || issue.location.start >= last.location.end) kept.push(issue);
+      return kept;
+    }, []);
+
+/**
+ * A SQL editor with syntax highlighting, autocomplete for the data source's
+ * tables and columns, and the safety checker's issues underlined as you type.
+ * Ctrl+Space suggests completions and Ctrl+Enter runs the query.
+ */
+export const SqlEditor = ({
+  initialSql,
+  dataSourceId,
+  onRun,
+  onCancel,
+}: {
+  initialSql: string;
+  dataSourceId?: string;
+  // Runs the query; a rejection is shown below the editor
+  onRun: (sql: string) => Promise<void>;
+  onCancel: () => void;
+}) => {
+  const [sql, setSql] = useState(initialSql);
+  const [tables, setTables] = useState<EditorTable[]>([]);
+  const [issues, setIssues] = useState<SqlValidationIssue[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [completion, setCompletion] = useState<Completion | null>(null);
+  const [selected, setSelected] = useState(0);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    getEditorSchema(dataSourceId)
+      .then(setTables)
+      .catch(() => setTables([]));
+  }, [dataSourceId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setChecking(true);
+    const timer = setTimeout(() => {
+      validateSQLQuery(sql, dataSourceId)
+        .then((validation) => {
+          if (cancelled) return;
+          // The checker trims the query, so its offsets start after any leading space
+          const offset = sql.length - sql.trimStart().length;
+          setIssues(
+            validation.issues.map((issue) =>
+              issue.location
+                ? {
+                    ...issue,
+                    location: {
+                      start: issue.location.start + offset,
+                      end: issue.location.end + offset,
+                    },
+                  }
+                : issue,
+            ),
+          );
+        })
+        .catch(() => !cancelled && setIssues([]))
+        .finally(() => !cancelled && setChecking(false));
+    }, validationDelayMs);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [sql, dataSourceId]);
+
+  const tokens = useMemo(() => tokenizeSql(sql), [sql]);
+  const underlined = useMemo(() => locatedIssues(issues), [issues]);
+  const suggestions = completion?.items.slice(0, maxSuggestions) ?? [];
+
+  const suggest = (text: string, cursor: number, always: boolean) => {
+    const next = completeSql(text, cursor, tables);
+    const typing = next.to > next.from || text[cursor - 1] === ".";
+    setCompletion(next.items.length > 0 && (always || typing) ? next : null);
+    setSelected(0);
+  };
+
+  const accept = (index: number) => {
+    if (!completion) return;
+    const item = suggestions[index];
+    const next = sql.slice(0, completion.from) + item.insert + sql.slice(completion.to);
+    const cursor = completion.from + item.insert.length;
+    setSql(next);
+    setCompletion(null);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  const run = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      await onRun(sql);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const canRun = !running && !checking && sql.trim().length > 0 && issues.length === 0;
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((e.ctrlKey || e.metaKey) && e.key === "Enter") {
+      e.preventDefault();
+      if (canRun) run();
+    } else if (e.ctrlKey && e.key === " ") {
+      e.preventDefault();
+      suggest(sql, e.currentTarget.selectionStart, true);
+    } else if (completion && suggestions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setSelected((selected + step + suggestions.length) % suggestions.length);
+      } else if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        accept(selected);
+      } else if (e.key === "Escape") {
+        e.preventDefault();
+        setCompletion(null);
+      }
+    }
+  };
+
+  // Where the popup opens: below the start of the word being completed
+  const popupPosition = useMemo(() => {
+    if (!completion) return null;
+    const lines = sql.slice(0, completion.from).split("\n");
+    return {
+      top: `calc(${lines.length * 1.5}rem + 0.75rem - ${scroll.top}px)`,
+      left: `calc(${lines[lines.length - 1].length}ch + 0.75rem - ${scroll.left}px)`,
+    };
+  }, [completion, sql, scroll]);
+
+  const underlineParts = useMemo(() => {
+    let position = 0;
+    const parts: { text: string; issue: boolean }[] = [];
+    for (const { location } of underlined) {
+      parts.push({ text: sql.slice(position, location.start), issue: false });
+      // An issue at the very end still needs a character to underline
+      parts.push({ text: sql.slice(location.start, location.end) || " ", issue: true });
+      position = location.end;
+    }
+    parts.push({ text: sql.slice(position), issue: false });
+    return parts;
+  }, [sql, underlined]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="relative rounded-md border border-input bg-background focus-within:ring-2 focus-within:ring-ring">
+        <div className="pointer-events-none absolute inset-0 overflow-hidden" aria-hidden>
+          <pre
+            className={layerClasses}
+            style={{ transform: `translate(${-scroll.left}px, ${-scroll.top}px)` }}
+          >
+            {tokens.map((token) => (
+              <span key={token.start} className={tokenClasses[token.type]}>
+                {token.text}
+              </span>
+            ))}
+            {/* Keeps a trailing empty line as tall as in the textarea */}{" "}
+          </pre>
+        </div>
+        <div className="pointer-events-none absolute inset-0 overflow-hidden" aria-hidden>
+          <pre
+            className={cn(layerClasses, "text-transparent")}
+            style={{ transform: `translate(${-scroll.left}px, ${-scroll.top}px)` }}
+          >
+            {underlineParts.map((part, index) => (
+              <span
+                key={index}
+                className={cn(part.issue && "underline decoration-destructive decoration-wavy")}
+              >
+                {part.text}
+              </span>
+            ))}
+          </pre>
+        </div>
+        <textarea
+          ref={textareaRef}
+          aria-label="SQL query"
+          value={sql}
+          wrap="off"
+          spellCheck={false}
+          autoCapitalize="off"
+          autoComplete="off"
+          rows={Math.min(Math.max(sql.split("\n").length, 4), 20)}
+          onChange={(e) => {
+            setSql(e.target.value);
+            setError(null);
+            const cursor = e.target.selectionStart;
+            if (/[\w$.]/.test(e.target.value[cursor - 1] ?? "")) {
+              suggest(e.target.value, cursor, false);
+            } else {
+              setCompletion(null);
+            }
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setCompletion(null)}
+          onScroll={(e) =>
+            setScroll({ top: e.currentTarget.scrollTop, left: e.currentTarget.scrollLeft })
+          }
+          className={cn(
+            layerClasses,
+            "relative block w-full resize-y overflow-auto bg-transparent text-transparent caret-foreground focus:outline-none",
+          )}
+        />
+        {popupPosition && suggestions.length > 0 && (
+          <ul
+            role="listbox"
+            aria-label="Suggestions"
+            style={popupPosition}
+            className="absolute z-10 max-h-60 min-w-48 overflow-y-auto rounded-md border border-border bg-popover py-1 text-sm text-popover-foreground shadow-md"
+          >
+            {suggestions.map((item, index) => (
+              <li
+                key={`${item.kind}:${item.label}`}
+                role="option"
+                aria-selected={index === selected}
+                // Keeps focus in the textarea so the popup is not closed first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  accept(index);
+                }}
+                className={cn(
+                  "flex cursor-pointer justify-between gap-4 px-3 py-1 font-mono",
+                  index === selected && "bg-accent text-accent-foreground",
+                )}
+              >
+                <span>{item.label}</span>
+                <span className="text-xs text-muted-foreground">
+                  {item.detail ?? item.kind}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {issues.length > 0 && (
+        <ul className="list-disc pl-5 text-sm text-destructive">
+          {issues.map((issue, index) => (
+            <li key={index}>{issue.message}</li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="flex items-center justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={running}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={run} disabled={!canRun}>
+          {running ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Play className="mr-2 h-4 w-4" />
+          )}
+          Run
+        </Button>
+      </div>
+    </div>
+  );
+};
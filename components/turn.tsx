@@ -0,0 +1,96 @@
+import { Loader2 } from "lucide-react";
+import { TurnState } from "@/lib/conversation";
+import { Config, PipelineStage } from "@/lib/types";
+import Results from "./results";
+import { QueryViewer } from "./query-viewer";
+import { RepairAttempts } from "./repair-attempts";
+import { ValidationIssues } from "./validation-issues";
+import { SaveQueryDialog } from "./save-query-dialog";
+import { PinToDashboardDialog } from "./pin-to-dashboard-dialog";
+
+const stageLabels: Record<PipelineStage, string> = {
+  generating: "Generating SQL query...",
+  validating: "Checking SQL query...",
+  running: "Running SQL query...",
+  charting: "Suggesting a chart...",
+  explaining: "Explaining SQL query...",
+};
+
+export const Turn = ({
+  turn,
+  dataSourceId,
+  onChartConfigChange,
+  onRunEdited,
+}: {
+  turn: TurnState;
+  dataSourceId?: string;
+  // Replaces the turn's chart with one edited in the chart editor
+  onChartConfigChange?: (config: Config) => void;
+  // Runs a query the user edited in place of the generated one
+  onRunEdited?: (sql: string) => Promise<void>;
+}) => {
+  return (
+    <div className="flex flex-col">
+      <p className="mb-3 self-end rounded-lg bg-secondary px-4 py-2 text-sm text-secondary-foreground">
+        {turn.question}
+      </p>
+      {turn.activeQuery.length > 0 && (
+        <QueryViewer
+          activeQuery={turn.activeQuery}
+          inputValue={turn.question}
+          dataSourceId={dataSourceId}
+          explanations={turn.explanations}
+          streaming={turn.stage === "generating"}
+          originalQuery={turn.generatedQuery}
+          onRun={turn.stage === null ? onRunEdited : undefined}
+        />
+      )}
+      <RepairAttempts attempts={turn.attempts} />
+      <ValidationIssues issues={turn.validationIssues} />
+      {turn.results.length === 0 && turn.stage !== null ? (
+        <div className="flex flex-col items-center justify-center space-y-4 py-8">
+          <Loader2 className="h-12 w-12 animate-spin text-muted-foreground" />
+          <p className="text-foreground">{stageLabels[turn.stage]}</p>
+        </div>
+      ) : turn.validationIssues.length > 0 ? null : turn.results.length === 0 ? (
+        <div className="flex items-center justify-center py-8">
+          <p className="text-center text-muted-foreground">No results found.</p>
+        </div>
+      ) : (
+        <>
+          {turn.stage === null && (
+            <div className="flex justify-end mb-2">
+              <SaveQueryDialog
+                question={turn.question}
+                sql={turn.activeQuery}
+                chartConfig={turn.chartConfig}
+                dataSourceId={dataSourceId}
+              />
+              {turn.chartConfig && (
+                <PinToDashboardDialog
+                  question={turn.question}
+                  sql={turn.activeQuery}
+                  chartConfig={turn.chartConfig}
+                  dataSourceId={dataSourceId}
+                />
+              )}
+            </div>
+          )}
+          <Results
+            results={turn.results}
+            chartConfig={turn.chartConfig}
+            fields={turn.fields}
+            truncated={turn.truncated}
+            query={{
+              sql: turn.activeQuery,
+              sourceId: dataSourceId,
+              name: turn.question,
+            }}
+            // Editing waits for the suggested chart, which would replace the edits
+            onChartConfigChange={turn.stage === null ? onChartConfigChange : undefined}
+          />
+        </>
+      )}
+    </div>
+  );
+};
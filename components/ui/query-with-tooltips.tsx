@@ -45,19 +45,20 @@ function segmentQuery(query: string, explanations: QueryExplanation[]): Array<{
   const segments: Array<{ text: string; explanation?: string }> = [];
   let lastIndex = 0;
 
-  // Sort explanations by their position in the query
+  // Explanations in query order, skipping any whose offsets no longer match
+  // the query text or overlap an earlier one
   const sortedExplanations = explanations
-    .map(exp => ({ ...exp, index: query.indexOf(exp.section) }))
-    .filter(exp => exp.index !== -1)
-    .sort((a, b) => a.index - b.index);
+    .filter(exp => query.slice(exp.start, exp.end) === exp.section && exp.end > exp.start)
+    .sort((a, b) => a.start - b.start);
 
   sortedExplanations.forEach(exp => {
-    if (exp.index > lastIndex) {
+    if (exp.start < lastIndex) return;
+    if (exp.start > lastIndex) {
       // Add any text before the current explanation as a segment without explanation
-      segments.push({ text: query.slice(lastIndex, exp.index) });
+      segments.push({ text: query.slice(lastIndex, exp.start) });
     }
     segments.push({ text: exp.section, explanation: exp.explanation });
-    lastIndex = exp.index + exp.section.length;
+    lastIndex = exp.end;
   });
 
   // Add any remaining text after the last explanation
@@ -0,0 +1,25 @@
+import { ShieldAlert } from "lucide-react";
+import { SqlValidationIssue } from "@/lib/types";
+import { Alert, AlertDescription, AlertTitle } from "./ui/alert";
+
+export const ValidationIssues = ({
+  issues,
+}: {
+  issues: SqlValidationIssue[];
+}) => {
+  if (issues.length === 0) return null;
+
+  return (
+    <Alert variant="destructive" className="mb-4">
+      <ShieldAlert className="h-4 w-4" />
+      <AlertTitle>The generated query was blocked</AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-4 space-y-1">
+          {issues.map((issue, index) => (
+            <li key={index}>{issue.message}</li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+};
@@ -0,0 +1,100 @@
+import { isNumericKind } from "./result-fields";
+import { Config, configSchema, Result, ResultField } from "./types";
+
+// The theme's chart colors, given to series in turn unless a config sets one
+export const chartColors = [
+  "hsl(var(--chart-1))",
+  "hsl(var(--chart-2))",
+  "hsl(var(--chart-3))",
+  "hsl(var(--chart-4))",
+  "hsl(var(--chart-5))",
+  "hsl(var(--chart-6))",
+  "hsl(var(--chart-7))",
+  "hsl(var(--chart-8))",
+];
+
+// The most lines a series column can split a chart into
+const maxSeries = 12;
+
+/**
+ * Checks a chart config against the schema and against the result it will
+ * draw: every column it names must be one of `fields`. Returns the parsed
+ * config, or the problems found.
+ */
+export function validateChartConfig(
+  config: unknown,
+  fields: ResultField[],
+): { config: Config; issues: [] } | { config: null; issues: string[] } {
+  const parsed = configSchema.safeParse(config);
+  if (!parsed.success) {
+    return {
+      config: null,
+      issues: parsed.error.issues.map(
+        (issue) => `${issue.path.join(".") || "config"}: ${issue.message}`,
+      ),
+    };
+  }
+
+  const chart = parsed.data;
+  const columns = new Set(fields.map((field) => field.name));
+  const issues: string[] = [];
+  const requireColumn = (key: string | undefined, role: string) => {
+    if (key !== undefined && !columns.has(key)) {
+      issues.push(`${role} "${key}" is not a column of the result`);
+    }
+  };
+
+  requireColumn(chart.xKey, "X axis column");
+  if (chart.type !== "histogram" && chart.yKeys.length === 0) {
+    issues.push("Pick at least one Y axis column");
+  }
+  chart.yKeys.forEach((key) => requireColumn(key, "Y axis column"));
+  requireColumn(chart.sizeKey, "Size column");
+  requireColumn(chart.sortBy?.key, "Sort column");
+  if (chart.multipleLines) {
+    requireColumn(chart.measurementColumn, "Measured column");
+    requireColumn(chart.seriesKey, "Series column");
+  }
+  for (const key of [...(chart.lineKeys ?? []), ...(chart.rightAxisKeys ?? [])]) {
+    if (!chart.yKeys.includes(key)) {
+      issues.push(`"${key}" must also be a Y axis column`);
+    }
+  }
+
+  return issues.length > 0 ? { config: null, issues } : { config: chart, issues: [] };
+}
+
+/**
+ * The distinct values of `column`, in order of appearance, for drawing one
+ * line per value. Null when there are too many for a readable chart.
+ */
+export function seriesCategories(rows: Result[], column: string): string[] | null {
+  const categories = new Set<string>();
+  for (const row of rows) {
+    const value = row[column];
+    if (value === null || value === undefined) continue;
+    categories.add(String(value));
+    if (categories.size > maxSeries) return null;
+  }
+  return Array.from(categories);
+}
+
+/**
+ * A bar chart of the first numeric column against the first other column,
+ * to start editing from when no chart was suggested. Null when the result
+ * has no numeric column to plot.
+ */
+export function defaultChartConfig(fields: ResultField[]): Config | null {
+  const measure = fields.find((field) => isNumericKind(field.kind));
+  if (!measure) return null;
+  const category = fields.find((field) => field !== measure) ?? measure;
+  return {
+    type: "bar",
+    title: measure.name,
+    description: "",
+    takeaway: "",
+    xKey: category.name,
+    yKeys: category === measure ? [] : [measure.name],
+    legend: false,
+  };
+}
@@ -0,0 +1,230 @@
+// Turns a chart drawn by recharts into a standalone SVG or PNG image. This
+// runs in the browser only: colors and fonts are read from the page, so the
+// image has the colors of the light or dark theme that is active.
+
+export type ChartImageFormat = "svg" | "png";
+
+const svgNamespace = "http://www.w3.org/2000/svg";
+
+// Styles the page applies through stylesheets and CSS variables, which a
+// standalone image cannot see, so they are copied onto each element
+const inlinedProperties = [
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-width",
+  "stroke-dasharray",
+  "stroke-opacity",
+  "opacity",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "text-anchor",
+  "dominant-baseline",
+  "visibility",
+];
+
+const padding = 24;
+const titleSize = 18;
+const textSize = 14;
+const lineHeight = 1.4;
+const swatchSize = 10;
+
+// PNGs are drawn at three times the on-screen size, sharp enough for slides
+const pngScale = 3;
+
+const create = (
+  name: string,
+  attributes: Record<string, string | number>,
+  text?: string,
+) => {
+  const element = document.createElementNS(svgNamespace, name);
+  for (const [key, value] of Object.entries(attributes)) {
+    element.setAttribute(key, String(value));
+  }
+  if (text !== undefined) element.textContent = text;
+  return element;
+};
+
+// A theme color, e.g. "--foreground", as the chart container sees it
+const themeColor = (container: HTMLElement, variable: string) =>
+  `hsl(${getComputedStyle(container).getPropertyValue(variable).trim()})`;
+
+const copyChart = (chart: SVGSVGElement) => {
+  const copy = chart.cloneNode(true) as SVGSVGElement;
+  const sources = [chart, ...Array.from(chart.querySelectorAll("*"))];
+  const copies = [copy, ...Array.from(copy.querySelectorAll("*"))];
+  sources.forEach((source, index) => {
+    const style = getComputedStyle(source);
+    copies[index].removeAttribute("class");
+    copies[index].setAttribute(
+      "style",
+      inlinedProperties
+        .map((property) => `${property}:${style.getPropertyValue(property)}`)
+        .join(";"),
+    );
+  });
+  return copy;
+};
+
+// The legend recharts draws as HTML beside the chart, as labels and colors
+const legendItems = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll(".recharts-legend-item")).map((item) => {
+    const icon = item.querySelector("svg path, svg rect, svg line, svg circle");
+    const style = icon ? getComputedStyle(icon) : null;
+    return {
+      label: item.textContent?.trim() ?? "",
+      // Line icons are strokes without a fill
+      color: style ? (style.fill === "none" ? style.stroke : style.fill) : "currentColor",
+    };
+  });
+
+const measurer = (font: string) => {
+  const context = document.createElement("canvas").getContext("2d");
+  if (context) context.font = font;
+  return (text: string) => context?.measureText(text).width ?? text.length * textSize * 0.6;
+};
+
+// Breaks `text` into lines no wider than `width`; a longer word gets a line
+// of its own
+export const wrapText = (text: string, width: number, measure: (text: string) => number) =>
+  text.split(/\s+/).reduce<string[]>((lines, word) => {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && measure(`${last} ${word}`) <= width) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else if (word) {
+      lines.push(word);
+    }
+    return lines;
+  }, []);
+
+/**
+ * Draws the chart inside `container` as an SVG document, with the title
+ * above it and the legend and takeaway below. Returns the markup and the
+ * image's size in CSS pixels.
+ */
+export function chartToSvg(
+  container: HTMLElement,
+  { title, takeaway }: { title: string; takeaway: string },
+) {
+  const chart = container.querySelector<SVGSVGElement>("svg.recharts-surface");
+  if (!chart) {
+    throw new Error("There is no chart to export");
+  }
+  const { width: chartWidth, height: chartHeight } = chart.getBoundingClientRect();
+  const width = Math.ceil(chartWidth) + padding * 2;
+  const contentWidth = width - padding * 2;
+  const fontFamily = getComputedStyle(container).fontFamily;
+  const foreground = themeColor(container, "--foreground");
+  const muted = themeColor(container, "--muted-foreground");
+  const measure = measurer(`${textSize}px ${fontFamily}`);
+
+  const image = create("svg", { width });
+  const parts: Element[] = [];
+  let y = padding;
+
+  parts.push(
+    create(
+      "text",
+      {
+        x: width / 2,
+        y: y + titleSize,
+        "text-anchor": "middle",
+        "font-size": titleSize,
+        "font-weight": "bold",
+        fill: foreground,
+      },
+      title,
+    ),
+  );
+  y += titleSize * lineHeight + 8;
+
+  const copy = copyChart(chart);
+  copy.setAttribute("x", String(padding));
+  copy.setAttribute("y", String(y));
+  parts.push(copy);
+  y += chartHeight + 8;
+
+  // Legend entries flow left to right, wrapping onto new rows
+  const rowHeight = textSize * lineHeight;
+  let x = padding;
+  const legend = legendItems(container);
+  legend.forEach(({ label, color }) => {
+    const itemWidth = swatchSize + 6 + measure(label) + 16;
+    if (x > padding && x + itemWidth > width - padding) {
+      x = padding;
+      y += rowHeight;
+    }
+    parts.push(
+      create("rect", {
+        x,
+        y: y + (rowHeight - swatchSize) / 2,
+        width: swatchSize,
+        height: swatchSize,
+        rx: 2,
+        fill: color,
+      }),
+      create(
+        "text",
+        { x: x + swatchSize + 6, y: y + textSize, "font-size": textSize, fill: foreground },
+        label,
+      ),
+    );
+    x += itemWidth;
+  });
+  if (legend.length > 0) y += rowHeight + 8;
+
+  for (const line of wrapText(takeaway, contentWidth, measure)) {
+    parts.push(
+      create("text", { x: padding, y: y + textSize, "font-size": textSize, fill: muted }, line),
+    );
+    y += rowHeight;
+  }
+
+  const height = Math.ceil(y + padding);
+  image.setAttribute("height", String(height));
+  image.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  image.setAttribute("font-family", fontFamily);
+  image.append(
+    create("rect", { width, height, fill: themeColor(container, "--background") }),
+    ...parts,
+  );
+  return { svg: new XMLSerializer().serializeToString(image), width, height };
+}
+
+const drawPng = (svg: string, width: number, height: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }));
+    const image = new Image();
+    const fail = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not draw the chart as a PNG"));
+    };
+    image.onerror = fail;
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = width * pngScale;
+      canvas.height = height * pngScale;
+      const context = canvas.getContext("2d");
+      if (!context) return fail();
+      context.scale(pngScale, pngScale);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : fail()), "image/png");
+    };
+    image.src = url;
+  });
+
+/**
+ * The chart inside `container` as an image file of the given format.
+ */
+export async function exportChartImage(
+  container: HTMLElement,
+  text: { title: string; takeaway: string },
+  format: ChartImageFormat,
+): Promise<Blob> {
+  const { svg, width, height } = chartToSvg(container, text);
+  return format === "svg"
+    ? new Blob([svg], { type: "image/svg+xml;charset=utf-8" })
+    : drawPng(svg, width, height);
+}
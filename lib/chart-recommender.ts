@@ -0,0 +1,159 @@
+import { seriesCategories } from "./chart-config";
+import { isNumericKind, isTemporalKind, toNumber } from "./result-fields";
+import { Config, Result, ResultField, ResultValue } from "./types";
+
+// A pie chart only reads well with a handful of slices
+const maxPieSlices = 6;
+// Plotting more measures than this at once makes a cluttered chart
+const maxMeasures = 4;
+
+// Whole-number columns named like these count as time, e.g. "year" or "order_month"
+const timeColumnName = /(^|_)(year|quarter|month|week|day|hour)s?$/i;
+
+const isTimeLike = (field: ResultField) =>
+  isTemporalKind(field.kind) ||
+  ((field.kind === "integer" || field.kind === "bigint") && timeColumnName.test(field.name));
+
+const label = (name: string) => name.replace(/_/g, " ");
+
+const listLabels = (names: string[]) =>
+  names.length === 1
+    ? label(names[0])
+    : `${names.slice(0, -1).map(label).join(", ")} and ${label(names[names.length - 1])}`;
+
+const distinctValues = (rows: Result[], column: string) =>
+  new Set(rows.map((row) => JSON.stringify(row[column]))).size;
+
+// Numbers and dates compare by value, anything else as text
+const compareValues = (left: ResultValue, right: ResultValue) => {
+  const [a, b] = [toNumber(left), toNumber(right)];
+  return a !== null && b !== null ? a - b : String(left).localeCompare(String(right));
+};
+
+const text = (value: ResultValue) => (value === null ? "none" : String(value));
+
+const lineChart = (rows: Result[], x: ResultField, measures: string[], category?: ResultField): Config => {
+  const title = `${listLabels(measures)} over ${label(x.name)}`;
+  // Repeated x values with one measure are usually one line per category
+  const categories =
+    category && measures.length === 1 && distinctValues(rows, x.name) < rows.length
+      ? seriesCategories(rows, category.name)
+      : null;
+  if (category && categories) {
+    return {
+      type: "line",
+      title: `${title} per ${label(category.name)}`,
+      description: `A line for each ${label(category.name)}, showing ${label(measures[0])} over ${label(x.name)}.`,
+      takeaway: `Compares ${categories.length} ${label(category.name)} values over ${label(x.name)}.`,
+      xKey: x.name,
+      yKeys: measures,
+      multipleLines: true,
+      seriesKey: category.name,
+      measurementColumn: measures[0],
+      lineCategories: categories,
+      legend: true,
+    };
+  }
+
+  const sorted = [...rows].sort((a, b) => compareValues(a[x.name], b[x.name]));
+  const [first, last] = [sorted[0], sorted[sorted.length - 1]];
+  return {
+    type: "line",
+    title,
+    description: `How ${listLabels(measures)} changed over ${label(x.name)}.`,
+    takeaway: `${label(measures[0])} went from ${text(first[measures[0]])} at ${text(first[x.name])} to ${text(last[measures[0]])} at ${text(last[x.name])}.`,
+    xKey: x.name,
+    yKeys: measures,
+    sortBy: { key: x.name, direction: "asc" },
+    legend: measures.length > 1,
+  };
+};
+
+const categoryChart = (rows: Result[], x: ResultField, measures: string[]): Config => {
+  const [measure] = measures;
+  const top = rows.reduce((best, row) =>
+    compareValues(row[measure], best[measure]) > 0 ? row : best,
+  );
+  const takeaway = `${text(top[x.name])} has the highest ${label(measure)}.`;
+  const shares =
+    measures.length === 1 &&
+    rows.length >= 2 &&
+    rows.length <= maxPieSlices &&
+    distinctValues(rows, x.name) === rows.length &&
+    rows.every((row) => (toNumber(row[measure]) ?? -1) >= 0);
+
+  return shares
+    ? {
+        type: "pie",
+        title: `Share of ${label(measure)} by ${label(x.name)}`,
+        description: `Each slice is one ${label(x.name)}, sized by its ${label(measure)}.`,
+        takeaway,
+        xKey: x.name,
+        yKeys: measures,
+        legend: true,
+      }
+    : {
+        type: "bar",
+        title: `${listLabels(measures)} by ${label(x.name)}`,
+        description: `${listLabels(measures)} for each ${label(x.name)}.`,
+        takeaway,
+        xKey: x.name,
+        yKeys: measures,
+        legend: measures.length > 1,
+      };
+};
+
+/**
+ * Picks a chart from the types and the number of distinct values of the
+ * result's columns, without a model: a time-like column gives a line chart,
+ * a category with one or more measures a bar chart, or a pie chart for a
+ * few shares, two measures a scatter plot and a lone measure a histogram.
+ * Null when the result has nothing to plot.
+ */
+export function recommendChart(rows: Result[], fields: ResultField[]): Config | null {
+  if (rows.length < 2) return null;
+  const time = fields.find(isTimeLike);
+  const measures = fields
+    .filter((field) => isNumericKind(field.kind) && field !== time)
+    .map((field) => field.name)
+    .slice(0, maxMeasures);
+  const category = fields.find(
+    (field) =>
+      field !== time &&
+      !isNumericKind(field.kind) &&
+      field.kind !== "json" &&
+      field.kind !== "array",
+  );
+
+  if (time && measures.length > 0) {
+    return lineChart(rows, time, measures, category);
+  }
+  if (category && measures.length > 0) {
+    return categoryChart(rows, category, measures);
+  }
+  if (measures.length >= 2) {
+    const [x, y, size] = measures;
+    return {
+      type: "scatter",
+      title: `${label(y)} against ${label(x)}`,
+      description: `Each point is one row, placed by its ${label(x)} and ${label(y)}${size ? ` and sized by its ${label(size)}` : ""}.`,
+      takeaway: `Shows whether ${label(y)} rises or falls with ${label(x)}.`,
+      xKey: x,
+      yKeys: [y],
+      sizeKey: size,
+      legend: false,
+    };
+  }
+  if (measures.length === 1) {
+    return {
+      type: "histogram",
+      title: `Distribution of ${label(measures[0])}`,
+      description: `How many rows fall into each range of ${label(measures[0])}.`,
+      takeaway: `Shows how ${label(measures[0])} is spread across ${rows.length} rows.`,
+      xKey: measures[0],
+      yKeys: [],
+      legend: false,
+    };
+  }
+  return null;
+}
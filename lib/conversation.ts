@@ -0,0 +1,146 @@
+import { validateChartConfig } from "./chart-config";
+import { recommendChart } from "./chart-recommender";
+import {
+  Config,
+  ConversationTurn,
+  HistoryEntry,
+  PipelineEvent,
+  PipelineStage,
+  QueryAttempt,
+  QueryExplanation,
+  QueryResult,
+  Result,
+  ResultField,
+  SqlValidationIssue,
+} from "./types";
+
+// Everything the UI shows for one question of a conversation
+export type TurnState = {
+  id: string;
+  question: string;
+  activeQuery: string;
+  // The query the model wrote, once the user has run an edited one instead
+  generatedQuery: string | null;
+  // The step the pipeline is on, or null once it has finished
+  stage: PipelineStage | null;
+  results: Result[];
+  fields: ResultField[];
+  truncated: boolean;
+  // Set once the query has run; null while running or after a failure
+  rowCount: number | null;
+  chartConfig: Config | null;
+  explanations: QueryExplanation[] | null;
+  validationIssues: SqlValidationIssue[];
+  attempts: QueryAttempt[];
+  // The history entry recorded for this turn's run
+  historyId: string | null;
+};
+
+export const createTurn = (question: string): TurnState => ({
+  id: crypto.randomUUID(),
+  question,
+  activeQuery: "",
+  generatedQuery: null,
+  stage: "generating",
+  results: [],
+  fields: [],
+  truncated: false,
+  rowCount: null,
+  chartConfig: null,
+  explanations: null,
+  validationIssues: [],
+  attempts: [],
+  historyId: null,
+});
+
+/**
+ * A finished turn showing a run from the history, without calling the model.
+ */
+export const turnFromHistory = (entry: HistoryEntry): TurnState => ({
+  ...createTurn(entry.question),
+  activeQuery: entry.sql,
+  stage: null,
+  results: entry.rows,
+  fields: entry.fields,
+  truncated: entry.truncated,
+  rowCount: entry.rowCount,
+  chartConfig: entry.chartConfig,
+  historyId: entry.id,
+});
+
+/**
+ * Folds one pipeline event into the state of the turn it belongs to.
+ */
+export function applyPipelineEvent(turn: TurnState, event: PipelineEvent): TurnState {
+  switch (event.type) {
+    case "sql-delta":
+      return { ...turn, activeQuery: turn.activeQuery + event.delta };
+    case "sql":
+      return { ...turn, activeQuery: event.sql, stage: "validating" };
+    case "validation":
+      return turn;
+    case "execution-start":
+      return { ...turn, stage: "running" };
+    case "attempts":
+      return {
+        ...turn,
+        attempts: event.attempts,
+        activeQuery: event.attempts[event.attempts.length - 1].sql,
+      };
+    case "rows":
+      return { ...turn, fields: event.fields, results: [...turn.results, ...event.rows] };
+    case "result":
+      return {
+        ...turn,
+        truncated: event.truncated,
+        rowCount: event.rowCount,
+        stage: event.rowCount > 0 ? "charting" : null,
+      };
+    case "chart":
+      return { ...turn, chartConfig: event.config };
+    case "explanation":
+      return { ...turn, explanations: event.explanations };
+    case "error":
+      return event.issues ? { ...turn, validationIssues: event.issues } : turn;
+    case "recorded":
+      return { ...turn, historyId: event.id };
+    case "done":
+      return { ...turn, stage: null };
+  }
+}
+
+/**
+ * Shows the result of a query the user edited in place of the generated one,
+ * which is kept for comparing and restoring. The chart stays when its columns
+ * are still there and is recommended again otherwise.
+ */
+export function applyEditedQuery(turn: TurnState, sql: string, result: QueryResult): TurnState {
+  const original = turn.generatedQuery ?? turn.activeQuery;
+  const chart = turn.chartConfig && validateChartConfig(turn.chartConfig, result.fields).config;
+  return {
+    ...turn,
+    activeQuery: sql,
+    generatedQuery: sql === original ? null : original,
+    results: result.rows,
+    fields: result.fields,
+    truncated: result.truncated,
+    rowCount: result.rowCount,
+    chartConfig: chart ?? recommendChart(result.rows, result.fields),
+    explanations: null,
+    validationIssues: [],
+    attempts: [],
+  };
+}
+
+/**
+ * The earlier turns worth showing the model: those whose query ran.
+ */
+export const toConversationHistory = (turns: TurnState[]): ConversationTurn[] =>
+  turns
+    .filter((turn) => turn.rowCount !== null)
+    .map((turn) => ({
+      question: turn.question,
+      sql: turn.activeQuery,
+      columns: turn.fields.map((field) => field.name),
+      rowCount: turn.rowCount ?? 0,
+    }));
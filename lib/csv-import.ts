@@ -0,0 +1,654 @@
+import fs from "fs";
+import { parse } from "csv-parse";
+import { ClientBase, escapeIdentifier } from "pg";
+import { from as copyFrom } from "pg-copy-streams";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+export type ColumnType = "text" | "integer" | "numeric" | "boolean" | "date" | "timestamp";
+
+export const columnTypes: ColumnType[] = ["text", "integer", "numeric", "boolean", "date", "timestamp"];
+
+// insert adds rows, upsert updates rows whose key already exists, and replace
+// empties the table first
+export type ImportMode = "insert" | "upsert" | "replace";
+
+// How to read numeric dates such as 04/07/2017
+export type DateOrder = "mdy" | "dmy" | "ymd";
+
+// How one CSV column is loaded; anything left out is inferred
+export type ColumnMapping = {
+  name?: string;
+  type?: ColumnType;
+  // Multiplies numbers, e.g. 1000 to store billions as millions
+  scale?: number;
+  // Rows without a value are rejected instead of loaded as NULL
+  required?: boolean;
+  skip?: boolean;
+};
+
+export type ImportOptions = {
+  file: string;
+  // Optionally schema-qualified, e.g. "sales.orders"
+  table: string;
+  mode: ImportMode;
+  // Columns identifying a row, required for upsert
+  key?: string[];
+  // By CSV header
+  columns?: Record<string, ColumnMapping>;
+  delimiter?: string;
+  dateOrder?: DateOrder;
+  batchSize?: number;
+  // Where rejected rows are written; nothing is written when none are rejected
+  rejectsFile?: string;
+};
+
+export type ImportColumn = {
+  header: string;
+  // Position in the CSV record
+  index: number;
+  name: string;
+  type: ColumnType;
+  scale: number;
+  required: boolean;
+};
+
+export type RejectedRow = {
+  line: number;
+  record: string[];
+  error: string;
+};
+
+export type ImportSummary = {
+  table: string;
+  mode: ImportMode;
+  columns: ImportColumn[];
+  created: boolean;
+  loaded: number;
+  rejected: number;
+  rejectsFile: string | null;
+};
+
+const defaultBatchSize = 5000;
+// Rows read before the column types are inferred
+const sampleSize = 1000;
+
+const sqlTypes: Record<ColumnType, string> = {
+  text: "text",
+  integer: "bigint",
+  numeric: "numeric",
+  boolean: "boolean",
+  date: "date",
+  timestamp: "timestamp",
+};
+
+// Values loaded as NULL whatever the column type
+const nullValues = new Set(["", "null", "n/a"]);
+
+const isNull = (raw: string) => nullValues.has(raw.trim().toLowerCase());
+
+const booleanValues: Record<string, boolean> = {
+  true: true,
+  t: true,
+  yes: true,
+  y: true,
+  "1": true,
+  false: false,
+  f: false,
+  no: false,
+  n: false,
+  "0": false,
+};
+
+const numberSuffixes: Record<string, number> = { k: 1e3, m: 1e6, mm: 1e6, b: 1e9, bn: 1e9 };
+
+/**
+ * Reads numbers the way spreadsheets export them: currency symbols, thousands
+ * separators, decimal commas, negatives in parentheses and K, M or B
+ * suffixes, e.g. "$1,250.50", "(300)", "1.234,5" or "€2.5B". Null when the
+ * text is not a number.
+ */
+export function parseNumber(raw: string): number | null {
+  let text = raw.trim();
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1).trim();
+  }
+  text = text.replace(/^[$€£¥₹]\s*/, "");
+  if (/^[-+]/.test(text)) {
+    if (text[0] === "-") sign = -sign;
+    text = text.slice(1).replace(/^[$€£¥₹]\s*/, "");
+  }
+  text = text.replace(/\s*[$€£¥₹]$/, "");
+
+  let multiplier = 1;
+  const suffix = /\s*(k|mm|m|bn|b)$/i.exec(text);
+  if (suffix) {
+    multiplier = numberSuffixes[suffix[1].toLowerCase()];
+    text = text.slice(0, suffix.index);
+  }
+
+  if (/^\d{1,3}([,' ]\d{3})+(\.\d+)?$/.test(text)) {
+    text = text.replace(/[,' ]/g, "");
+  } else if (
+    /^\d{1,3}(\.\d{3}){2,}$/.test(text) ||
+    /^\d{1,3}(\.\d{3})+,\d+$/.test(text) ||
+    /^\d+,\d+$/.test(text)
+  ) {
+    // 1.234.567, 1.234,5 and 3,5: a comma for the decimal point. With one dot
+    // and no comma, as in 1.234, the dot is the decimal point.
+    text = text.replace(/\./g, "").replace(",", ".");
+  }
+  if (!/^(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text)) return null;
+  // Rounds away binary noise such as 1.1 * 1000 = 1100.0000000000002
+  return Number((sign * Number(text) * multiplier).toPrecision(15));
+}
+
+const monthNames = [
+  "jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec",
+];
+
+const monthOf = (name: string) => {
+  const index = monthNames.indexOf(name.slice(0, 3).toLowerCase());
+  return index >= 0 && /^[a-z]+\.?$/i.test(name) ? index + 1 : null;
+};
+
+// Two-digit years up to 69 are in this century, as strptime reads them
+const fullYear = (year: number, digits: number) =>
+  digits > 2 ? year : year <= 69 ? 2000 + year : 1900 + year;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+const toIsoDate = (year: number, month: number, day: number) => {
+  if (month < 1 || month > 12 || day < 1) return null;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return day > daysInMonth ? null : `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Reads a date as YYYY-MM-DD from ISO dates, numeric dates in `order`
+ * (switching order when the day cannot be a month, e.g. 25/12/2020) and dates
+ * with month names such as "April 7, 2017" or "07-Apr-17". Null when the text
+ * is not a valid date.
+ */
+export function parseDate(raw: string, order: DateOrder = "mdy"): string | null {
+  const text = raw.trim();
+  const iso = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/.exec(text);
+  if (iso) return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const numeric = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/.exec(text);
+  if (numeric) {
+    const [first, second] = [Number(numeric[1]), Number(numeric[2])];
+    if (order === "ymd" && numeric[3].length === 2) {
+      return toIsoDate(fullYear(first, 2), second, Number(numeric[3]));
+    }
+    const year = fullYear(Number(numeric[3]), numeric[3].length);
+    const dayFirst = second > 12 ? false : first > 12 ? true : order === "dmy";
+    return dayFirst ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+  }
+
+  const parts = text.split(/[\s,\-/.]+/).filter(Boolean);
+  if (parts.length !== 3) return null;
+  const monthIndex = parts.findIndex((part) => monthOf(part) !== null);
+  if (monthIndex < 0) return null;
+  const numbers = parts.filter((_, index) => index !== monthIndex);
+  if (!numbers.every((part) => /^\d{1,4}$/.test(part))) return null;
+  // The year is the four-digit part, or else the last one
+  const yearIndex = numbers[0].length === 4 ? 0 : 1;
+  const year = fullYear(Number(numbers[yearIndex]), numbers[yearIndex].length);
+  return toIsoDate(year, monthOf(parts[monthIndex]) ?? 0, Number(numbers[1 - yearIndex]));
+}
+
+// Minutes east of UTC for "Z", "+05", "+0530" or "-05:30"
+const offsetMinutes = (zone: string) => {
+  const match = /^([-+])(\d{2}):?(\d{2})?$/.exec(zone);
+  if (!match) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3] ?? 0);
+  return match[1] === "-" ? -minutes : minutes;
+};
+
+/**
+ * Reads a date with an optional time of day, in 24-hour or AM/PM form and
+ * with an optional UTC offset, as "YYYY-MM-DD HH:MM:SS". A time with an
+ * offset is converted to UTC and marked "Z", so it is the same instant in a
+ * timestamp column, which ignores offsets, and in a timestamptz one. Null
+ * when the text is not a valid timestamp.
+ */
+export function parseTimestamp(raw: string, order: DateOrder = "mdy"): string | null {
+  const text = raw.trim();
+  const match =
+    /^(.*?)[T\s]+(\d{1,2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?\s*([ap]m)?\s*(z|[-+]\d{2}(?::?\d{2})?)?$/i.exec(
+      text,
+    );
+  if (!match) {
+    const date = parseDate(text, order);
+    return date && `${date} 00:00:00`;
+  }
+  const date = parseDate(match[1], order);
+  let hours = Number(match[2]);
+  const meridiem = match[5]?.toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === "pm" ? 12 : 0);
+  }
+  const minutes = Number(match[3]);
+  const seconds = match[4] ?? "00";
+  if (!date || hours > 23 || minutes > 59 || Number(seconds) >= 60) return null;
+  const zone = match[6];
+  if (!zone) return `${date} ${pad(hours)}:${pad(minutes)}:${seconds.padStart(2, "0")}`;
+
+  const [year, month, day] = date.split("-").map(Number);
+  // Offsets are whole minutes, so the seconds carry over unchanged
+  const utc = new Date(
+    Date.UTC(year, month - 1, day, hours, minutes) - offsetMinutes(zone) * 60000,
+  );
+  const utcDate = toIsoDate(utc.getUTCFullYear(), utc.getUTCMonth() + 1, utc.getUTCDate());
+  const utcTime = `${pad(utc.getUTCHours())}:${pad(utc.getUTCMinutes())}`;
+  return `${utcDate} ${utcTime}:${seconds.padStart(2, "0")}Z`;
+}
+
+/**
+ * A Postgres column name for a CSV header, e.g. "Date Joined" → date_joined.
+ */
+export const toColumnName = (header: string, index: number) => {
+  const name = header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  if (!name) return `column_${index + 1}`;
+  return /^\d/.test(name) ? `_${name}` : name;
+};
+
+/**
+ * Converts one CSV value into the text COPY loads for the column, or null.
+ * Throws when the value does not fit the column.
+ */
+export function convertValue(raw: string, column: ImportColumn, dateOrder: DateOrder): string | null {
+  if (isNull(raw)) {
+    if (column.required) throw new Error(`${column.header} is required`);
+    return null;
+  }
+  const text = raw.trim();
+  switch (column.type) {
+    case "text":
+      return text;
+    case "integer":
+    case "numeric": {
+      const number = parseNumber(text);
+      if (number === null) throw new Error(`${column.header}: "${text}" is not a number`);
+      const value = Number((number * column.scale).toPrecision(15));
+      if (column.type === "integer" && !Number.isInteger(value)) {
+        throw new Error(`${column.header}: "${text}" is not a whole number`);
+      }
+      return String(value);
+    }
+    case "boolean": {
+      const value = booleanValues[text.toLowerCase()];
+      if (value === undefined) throw new Error(`${column.header}: "${text}" is not true or false`);
+      return String(value);
+    }
+    case "date": {
+      const value = parseDate(text, dateOrder);
+      if (value === null) throw new Error(`${column.header}: "${text}" is not a date`);
+      return value;
+    }
+    case "timestamp": {
+      const value = parseTimestamp(text, dateOrder);
+      if (value === null) throw new Error(`${column.header}: "${text}" is not a date and time`);
+      return value;
+    }
+  }
+}
+
+// The narrowest type every sampled value fits, text when nothing else does
+const inferType = (values: string[], scale: number, dateOrder: DateOrder): ColumnType => {
+  const present = values.filter((value) => !isNull(value)).map((value) => value.trim());
+  if (present.length === 0) return "text";
+  const words = present.map((value) => value.toLowerCase());
+  if (words.every((word) => word in booleanValues && !/^[01]$/.test(word))) return "boolean";
+  const numbers = present.map(parseNumber);
+  if (numbers.every((number) => number !== null)) {
+    return numbers.every((number) => Number.isInteger(Number(((number ?? 0) * scale).toPrecision(15))))
+      ? "integer"
+      : "numeric";
+  }
+  if (present.every((value) => parseDate(value, dateOrder) !== null)) return "date";
+  if (present.every((value) => parseTimestamp(value, dateOrder) !== null)) return "timestamp";
+  return "text";
+};
+
+// The import's type for a column that already exists, from format_type()
+const columnTypeOf = (postgresType: string): ColumnType => {
+  if (/^(smallint|integer|bigint)$/.test(postgresType)) return "integer";
+  if (/^(numeric|real|double precision|money)/.test(postgresType)) return "numeric";
+  if (postgresType === "boolean") return "boolean";
+  if (postgresType === "date") return "date";
+  if (postgresType.startsWith("timestamp")) return "timestamp";
+  return "text";
+};
+
+/**
+ * Decides the name and type of each CSV column: a mapping wins, then the type
+ * of an existing column, then the type inferred from the sampled records.
+ */
+export function planColumns(
+  headers: string[],
+  sample: string[][],
+  mappings: Record<string, ColumnMapping> = {},
+  existing: Map<string, ColumnType> | null = null,
+  dateOrder: DateOrder = "mdy",
+): ImportColumn[] {
+  const columns = headers.flatMap((header, index) => {
+    const mapping = mappings[header] ?? {};
+    if (mapping.skip) return [];
+    const name = mapping.name ?? toColumnName(header, index);
+    const scale = mapping.scale ?? 1;
+    const type =
+      mapping.type ??
+      existing?.get(name) ??
+      inferType(sample.map((record) => record[index] ?? ""), scale, dateOrder);
+    return [{ header, index, name, type, scale, required: mapping.required ?? false }];
+  });
+
+  const unknown = Object.keys(mappings).filter((header) => !headers.includes(header));
+  if (unknown.length > 0) {
+    throw new Error(`The CSV has no column named ${unknown.map((header) => `"${header}"`).join(", ")}`);
+  }
+  const names = columns.map((column) => column.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) throw new Error(`More than one CSV column is loaded into "${duplicate}"`);
+  if (existing) {
+    const missing = names.filter((name) => !existing.has(name));
+    if (missing.length > 0) {
+      throw new Error(
+        `The table has no column ${missing.map((name) => `"${name}"`).join(", ")}; map or skip it`,
+      );
+    }
+  }
+  return columns;
+}
+
+export type ConvertedRow = { line: number; record: string[]; values: (string | null)[] };
+
+/**
+ * Reads the CSV, plans its columns and converts its records, handing them to
+ * `load` in batches. Records that do not convert are returned rather than
+ * loaded.
+ */
+export async function readCsv(
+  options: ImportOptions,
+  existing: Map<string, ColumnType> | null,
+  load: (columns: ImportColumn[], rows: ConvertedRow[]) => Promise<void>,
+): Promise<{ headers: string[]; columns: ImportColumn[]; loaded: number; rejected: RejectedRow[] }> {
+  const dateOrder = options.dateOrder ?? "mdy";
+  const batchSize = options.batchSize ?? defaultBatchSize;
+  const parser = fs.createReadStream(options.file).pipe(
+    parse({
+      delimiter: options.delimiter ?? ",",
+      bom: true,
+      skip_empty_lines: true,
+      relax_column_count: true,
+      info: true,
+    }),
+  );
+
+  let headers: string[] | null = null;
+  let columns: ImportColumn[] | null = null;
+  const sample: { line: number; record: string[] }[] = [];
+  const rejected: RejectedRow[] = [];
+  let batch: ConvertedRow[] = [];
+  let loaded = 0;
+
+  const convert = (line: number, record: string[]) => {
+    if (!headers || !columns) return;
+    if (record.length !== headers.length) {
+      rejected.push({ line, record, error: `Expected ${headers.length} values, found ${record.length}` });
+      return;
+    }
+    try {
+      batch.push({
+        line,
+        record,
+        values: columns.map((column) => convertValue(record[column.index], column, dateOrder)),
+      });
+    } catch (e) {
+      rejected.push({ line, record, error: e instanceof Error ? e.message : String(e) });
+    }
+  };
+  const flush = async (all: boolean) => {
+    while (columns && batch.length > 0 && (all || batch.length >= batchSize)) {
+      const rows = batch.slice(0, batchSize);
+      batch = batch.slice(batchSize);
+      await load(columns, rows);
+      loaded += rows.length;
+    }
+  };
+  const plan = () => {
+    columns = planColumns(
+      headers ?? [],
+      sample.map(({ record }) => record),
+      options.columns,
+      existing,
+      dateOrder,
+    );
+    sample.forEach(({ line, record }) => convert(line, record));
+  };
+
+  for await (const { record, info } of parser as AsyncIterable<{
+    record: string[];
+    info: { lines: number };
+  }>) {
+    if (!headers) {
+      headers = record.map((header) => header.trim());
+    } else if (!columns) {
+      sample.push({ line: info.lines, record });
+      if (sample.length === sampleSize) plan();
+    } else {
+      convert(info.lines, record);
+    }
+    await flush(false);
+  }
+  if (!headers) throw new Error(`${options.file} is empty`);
+  if (!columns) plan();
+  await flush(true);
+  return { headers, columns: columns ?? [], loaded, rejected };
+}
+
+// RFC 4180: quote fields containing separators, quotes or line breaks
+const escapeCsv = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// COPY's CSV format reads an unquoted empty field as NULL and a quoted one as ''
+const toCopyLine = (values: (string | null)[]) =>
+  values.map((value) => (value === null ? "" : `"${value.replace(/"/g, '""')}"`)).join(",") + "\n";
+
+const quoteTable = (table: string) => table.split(".").map(escapeIdentifier).join(".");
+
+// The columns of an existing table with the import's type for each, or null
+// when there is no such table
+const existingColumns = async (client: ClientBase, table: string) => {
+  const { rows } = await client.query<{ exists: boolean; name: string | null; type: string | null }>(
+    `SELECT to_regclass($1) IS NOT NULL AS exists, a.attname AS name, format_type(a.atttypid, a.atttypmod) AS type
+     FROM (SELECT 1) AS one
+     LEFT JOIN pg_attribute a ON a.attrelid = to_regclass($1) AND a.attnum > 0 AND NOT a.attisdropped`,
+    [quoteTable(table)],
+  );
+  if (!rows[0]?.exists) return null;
+  return new Map(
+    rows.flatMap(({ name, type }) => (name && type ? [[name, columnTypeOf(type)] as const] : [])),
+  );
+};
+
+// Writes rows into a table, already quoted, in the order of `names`
+export type CopyRows = (
+  client: ClientBase,
+  table: string,
+  names: string[],
+  rows: ConvertedRow[],
+) => Promise<void>;
+
+const copyRows: CopyRows = async (client, table, names, rows) =>
+  pipeline(
+    Readable.from(rows.map((row) => toCopyLine(row.values))),
+    client.query(
+      copyFrom(`COPY ${table} (${names.map(escapeIdentifier).join(", ")}) FROM STDIN WITH (FORMAT csv)`),
+    ),
+  );
+
+// The last row for each key, so an upsert never updates a row twice
+const lastByKey = (rows: ConvertedRow[], keyIndexes: number[]) => {
+  const byKey = new Map<string, ConvertedRow>();
+  for (const row of rows) {
+    const key = JSON.stringify(keyIndexes.map((index) => row.values[index]));
+    byKey.delete(key);
+    byKey.set(key, row);
+  }
+  return Array.from(byKey.values());
+};
+
+const writeRejects = (file: string, headers: string[], rejected: RejectedRow[]) => {
+  const lines = [
+    [...headers, "line", "error"],
+    ...rejected.map(({ line, record, error }) => [...record, String(line), error]),
+  ].map((fields) => fields.map(escapeCsv).join(","));
+  fs.writeFileSync(file, lines.join("\r\n") + "\r\n");
+};
+
+// Data exceptions and constraint violations, such as a value too long for
+// its column or a duplicate key: the row is at fault, not the import
+const isRowError = (e: unknown) =>
+  e instanceof Error && /^2[23]/.test(String((e as Error & { code?: string }).code));
+
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+/**
+ * Loads a CSV file into a table with COPY, in batches, inside one
+ * transaction: either every valid row is loaded or none is. A missing table
+ * is created from the planned columns, with the key as its primary key.
+ * Records that do not convert, and rows the database refuses because of
+ * their values, are skipped and written to the rejects file. `copy` replaces
+ * COPY where it is not available.
+ */
+export async function importCsv(
+  client: ClientBase,
+  options: ImportOptions,
+  copy: CopyRows = copyRows,
+): Promise<ImportSummary> {
+  const key = options.key ?? [];
+  if (options.mode === "upsert" && key.length === 0) {
+    throw new Error("An upsert needs the key columns that identify a row");
+  }
+  const table = quoteTable(options.table);
+  const existing = await existingColumns(client, options.table);
+  let prepared = false;
+  const refused: RejectedRow[] = [];
+
+  // Runs once the columns are known, before the first batch is loaded
+  const prepare = async (columns: ImportColumn[]) => {
+    const names = columns.map((column) => column.name);
+    const missingKey = key.filter((name) => !names.includes(name));
+    if (missingKey.length > 0) {
+      throw new Error(`The key column ${missingKey.map((name) => `"${name}"`).join(", ")} is not in the CSV`);
+    }
+    if (!existing) {
+      const definitions = columns.map(
+        (column) =>
+          `${escapeIdentifier(column.name)} ${sqlTypes[column.type]}${column.required ? " NOT NULL" : ""}`,
+      );
+      if (key.length > 0) definitions.push(`PRIMARY KEY (${key.map(escapeIdentifier).join(", ")})`);
+      await client.query(`CREATE TABLE ${table} (${definitions.join(", ")})`);
+    } else if (options.mode === "replace") {
+      await client.query(`TRUNCATE ${table}`);
+    }
+    if (options.mode === "upsert") {
+      await client.query(
+        `CREATE TEMP TABLE import_staging ON COMMIT DROP AS SELECT ${names.map(escapeIdentifier).join(", ")} FROM ${table} WITH NO DATA`,
+      );
+    }
+    prepared = true;
+  };
+
+  const loadRows = async (columns: ImportColumn[], rows: ConvertedRow[]) => {
+    const names = columns.map((column) => column.name);
+    if (options.mode !== "upsert") {
+      await copy(client, table, names, rows);
+      return;
+    }
+    const keyIndexes = key.map((name) => names.indexOf(name));
+    await copy(client, "import_staging", names, lastByKey(rows, keyIndexes));
+      const quoted = names.map(escapeIdentifier);
+      const updates = names
+        .filter((name) => !key.includes(name))
+        .map((name) => `${escapeIdentifier(name)} = EXCLUDED.${escapeIdentifier(name)}`);
+    await client.query(
+      `INSERT INTO ${table} (${quoted.join(", ")}) SELECT ${quoted.join(", ")} FROM import_staging
+       ON CONFLICT (${key.map(escapeIdentifier).join(", ")}) DO ${updates.length > 0 ? `UPDATE SET ${updates.join(", ")}` : "NOTHING"}`,
+    );
+    await client.query("TRUNCATE import_staging");
+  };
+
+  // Loads rows behind a savepoint, so a failure undoes only them. Returns
+  // the error when the rows are at fault; any other error ends the import.
+  const attempt = async (columns: ImportColumn[], rows: ConvertedRow[]) => {
+    await client.query("SAVEPOINT import_rows");
+    try {
+      await loadRows(columns, rows);
+      await client.query("RELEASE SAVEPOINT import_rows");
+      return null;
+    } catch (e) {
+      if (!isRowError(e)) {
+        // The error keeps its SQLSTATE, which tells whether the connection is still usable
+        const message = `Loading the rows from line ${rows[0].line} to ${rows[rows.length - 1].line} failed: ${errorMessage(e)}`;
+        if (e instanceof Error) {
+          e.message = message;
+          throw e;
+        }
+        throw new Error(message);
+      }
+      await client.query("ROLLBACK TO SAVEPOINT import_rows");
+      await client.query("RELEASE SAVEPOINT import_rows");
+      return e;
+    }
+  };
+
+  // A refused batch is loaded again row by row to find the rows at fault
+  const loadBatch = async (columns: ImportColumn[], rows: ConvertedRow[]) => {
+    if (!prepared) await prepare(columns);
+    if (!(await attempt(columns, rows))) return;
+    for (const row of rows) {
+      const error = await attempt(columns, [row]);
+      if (error) refused.push({ line: row.line, record: row.record, error: errorMessage(error) });
+    }
+  };
+
+  await client.query("BEGIN");
+  let result: Awaited<ReturnType<typeof readCsv>>;
+  try {
+    result = await readCsv(options, existing, loadBatch);
+    // An import without valid rows still creates or empties the table
+    if (!prepared) await prepare(result.columns);
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK").catch(() => undefined);
+    throw e;
+  }
+
+  const rejected = [...result.rejected, ...refused].sort((a, b) => a.line - b.line);
+  const rejectsFile =
+    rejected.length > 0
+      ? options.rejectsFile ?? options.file.replace(/(\.csv)?$/i, ".rejects.csv")
+      : null;
+  if (rejectsFile) writeRejects(rejectsFile, result.headers, rejected);
+
+  return {
+    table: options.table,
+    mode: options.mode,
+    columns: result.columns,
+    created: existing === null,
+    loaded: result.loaded - refused.length,
+    rejected: rejected.length,
+    rejectsFile,
+  };
+}
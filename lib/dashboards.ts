@@ -0,0 +1,52 @@
+import { createJsonStore, createRecordId } from "./store";
+import { Dashboard, DashboardTile } from "./types";
+
+const store = createJsonStore<Dashboard>("dashboards");
+
+export async function getDashboards(): Promise<Dashboard[]> {
+  return store.read();
+}
+
+export async function getDashboard(id: string): Promise<Dashboard | undefined> {
+  const dashboards = await store.read();
+  return dashboards.find((dashboard) => dashboard.id === id);
+}
+
+export async function addDashboard(name: string): Promise<Dashboard> {
+  const now = new Date().toISOString();
+  const dashboard: Dashboard = { id: createRecordId(), name, tiles: [], createdAt: now, updatedAt: now };
+  await store.update((dashboards) => [...dashboards, dashboard]);
+  return dashboard;
+}
+
+/**
+ * Replaces the tiles of a dashboard with the result of `change`.
+ */
+export async function updateDashboardTiles(
+  id: string,
+  change: (tiles: DashboardTile[]) => DashboardTile[],
+): Promise<Dashboard> {
+  let updated: Dashboard | undefined;
+  await store.update((dashboards) =>
+    dashboards.map((dashboard) => {
+      if (dashboard.id !== id) return dashboard;
+      updated = {
+        ...dashboard,
+        tiles: change(dashboard.tiles),
+        updatedAt: new Date().toISOString(),
+      };
+      return updated;
+    }),
+  );
+  if (!updated) {
+    throw new Error("This dashboard no longer exists");
+  }
+  return updated;
+}
+
+export async function addTile(
+  dashboardId: string,
+  tile: Omit<DashboardTile, "id">,
+): Promise<Dashboard> {
+  return updateDashboardTiles(dashboardId, (tiles) => [...tiles, { id: createRecordId(), ...tile }]);
+}
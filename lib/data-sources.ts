@@ -0,0 +1,93 @@
+import { z } from "zod";
+import { DataSourceInfo } from "./types";
+
+const dataSourceSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-zA-Z0-9_-]+$/, "Data source ids may only contain letters, digits, - and _"),
+  name: z.string(),
+  connectionString: z.string().optional(),
+  host: z.string().optional(),
+  port: z.coerce.number().optional(),
+  database: z.string().optional(),
+  user: z.string().optional(),
+  password: z.string().optional(),
+  ssl: z.boolean().default(true),
+  // Schemas the model may see, in search_path order
+  schemas: z.array(z.string()).min(1).default(["public"]),
+  // Optional allow-list of tables, either "table" or "schema.table"
+  tables: z.array(z.string()).optional(),
+});
+
+export type DataSource = z.infer<typeof dataSourceSchema>;
+
+const defaultDataSource = (): DataSource => ({
+  id: "default",
+  name: process.env.POSTGRES_DATABASE ?? "Default",
+  host: process.env.POSTGRES_HOST,
+  port: Number(process.env.POSTGRES_PORT) || undefined,
+  database: process.env.POSTGRES_DATABASE,
+  user: process.env.POSTGRES_USER,
+  password: process.env.POSTGRES_PASSWORD,
+  ssl: true,
+  schemas: (process.env.POSTGRES_SCHEMAS || "public")
+    .split(",")
+    .map((schema) => schema.trim())
+    .filter(Boolean),
+});
+
+/**
+ * Reads the registry from DATA_SOURCES, a JSON array of data sources. Without
+ * it, a single "default" source is built from the POSTGRES_* variables.
+ */
+const loadDataSources = (): DataSource[] => {
+  const raw = process.env.DATA_SOURCES;
+  if (!raw) return [defaultDataSource()];
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new Error("DATA_SOURCES is not valid JSON");
+  }
+  const parsed = z.array(dataSourceSchema).nonempty().safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`DATA_SOURCES is invalid: ${parsed.error.message}`);
+  }
+  const ids = new Set<string>();
+  for (const source of parsed.data) {
+    if (ids.has(source.id)) {
+      throw new Error(`DATA_SOURCES contains the id "${source.id}" more than once`);
+    }
+    ids.add(source.id);
+  }
+  return parsed.data;
+};
+
+let dataSources: DataSource[] | undefined;
+
+export const getDataSources = () => (dataSources ??= loadDataSources());
+
+/**
+ * Resolves a data source by id, falling back to the first registered source
+ * when no id is given.
+ */
+export const getDataSource = (id?: string) => {
+  const sources = getDataSources();
+  if (!id) return sources[0];
+  const source = sources.find((source) => source.id === id);
+  if (!source) {
+    throw new Error(`Unknown data source "${id}"`);
+  }
+  return source;
+};
+
+export const toDataSourceInfo = (source: DataSource): DataSourceInfo => ({
+  id: source.id,
+  name: source.name,
+});
+
+export const isTableAllowed = (source: DataSource, schema: string, table: string) =>
+  source.schemas.includes(schema) &&
+  (!source.tables ||
+    source.tables.some((allowed) => allowed === table || allowed === `${schema}.${table}`));
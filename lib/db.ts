@@ -0,0 +1,182 @@
+import { Pool, PoolClient } from "pg";
+import { readPositiveInt } from "./utils";
+import { DataSource, getDataSource, getDataSources } from "./data-sources";
+
+const createPool = (source: DataSource) => {
+  const pool = new Pool({
+    connectionString: source.connectionString,
+    host: source.host,
+    port: source.port,
+    database: source.database,
+    user: source.user,
+    password: source.password,
+    ssl: source.ssl ? { rejectUnauthorized: false } : false,
+    max: readPositiveInt(process.env.POSTGRES_POOL_MAX, 10),
+    idleTimeoutMillis: readPositiveInt(process.env.POSTGRES_POOL_IDLE_TIMEOUT_MS, 30000),
+    connectionTimeoutMillis: readPositiveInt(
+      process.env.POSTGRES_POOL_CONNECTION_TIMEOUT_MS,
+      5000,
+    ),
+  });
+
+  // An idle client losing its connection must not crash the server
+  pool.on("error", (e) => {
+    console.error(`Idle PostgreSQL client error (${source.id}):`, e.message);
+  });
+
+  return pool;
+};
+
+// Kept on globalThis so Next.js hot reloads in development reuse the pools
+const globalForDb = globalThis as unknown as {
+  pgPools?: Map<string, Pool>;
+  pgReady?: Map<string, Promise<void>>;
+};
+const pools = (globalForDb.pgPools ??= new Map());
+const readiness = (globalForDb.pgReady ??= new Map());
+
+/**
+ * Returns the pool for a data source, creating it on first use. Without an id
+ * the first registered source is used.
+ */
+export const getPool = (sourceId?: string) => {
+  const source = getDataSource(sourceId);
+  let pool = pools.get(source.id);
+  if (!pool) {
+    pool = createPool(source);
+    pools.set(source.id, pool);
+  }
+  return pool;
+};
+
+// Errors reported by the server carry a five character SQLSTATE code and leave
+// the connection usable; anything else (resets, timeouts) may not
+const isServerError = (e: unknown) =>
+  typeof e === "object" &&
+  e !== null &&
+  typeof (e as { code?: unknown }).code === "string" &&
+  /^[0-9A-Z]{5}$/.test((e as { code: string }).code);
+
+/**
+ * Checks out a client, runs `fn` with it and always releases it back to the
+ * pool. A client whose connection may be broken is destroyed instead.
+ */
+export async function withClient<T>(
+  sourceId: string | undefined,
+  fn: (client: PoolClient) => Promise<T>,
+) {
+  const client = await getPool(sourceId).connect();
+  let broken = false;
+  try {
+    return await fn(client);
+  } catch (e) {
+    broken = !isServerError(e);
+    throw e;
+  } finally {
+    client.release(broken);
+  }
+}
+
+/**
+ * withClient for async generators: the client is held until the iteration
+ * finishes or is stopped.
+ */
+export async function* streamWithClient<T>(
+  sourceId: string | undefined,
+  fn: (client: PoolClient) => AsyncGenerator<T>,
+) {
+  const client = await getPool(sourceId).connect();
+  let broken = false;
+  try {
+    yield* fn(client);
+  } catch (e) {
+    broken = !isServerError(e);
+    throw e;
+  } finally {
+    client.release(broken);
+  }
+}
+
+export async function closePools() {
+  const open = Array.from(pools.values());
+  pools.clear();
+  readiness.clear();
+  await Promise.all(open.map((pool) => pool.end()));
+}
+
+export type DatabaseHealth = {
+  sourceId: string;
+  ok: boolean;
+  latencyMs: number;
+  totalCount: number;
+  idleCount: number;
+  waitingCount: number;
+  error?: string;
+};
+
+export async function checkDatabaseHealth(sourceId?: string): Promise<DatabaseHealth> {
+  const source = getDataSource(sourceId);
+  const pool = getPool(source.id);
+  const start = Date.now();
+  let error: string | undefined;
+  try {
+    await pool.query("SELECT 1");
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+  return {
+    sourceId: source.id,
+    ok: !error,
+    latencyMs: Date.now() - start,
+    totalCount: pool.totalCount,
+    idleCount: pool.idleCount,
+    waitingCount: pool.waitingCount,
+    error,
+  };
+}
+
+export const checkAllDatabases = () =>
+  Promise.all(getDataSources().map((source) => checkDatabaseHealth(source.id)));
+
+const verifySource = async (source: DataSource) => {
+  const pool = getPool(source.id);
+  const { rows } = await pool.query(
+    "SELECT count(*)::int AS count FROM pg_tables WHERE schemaname = ANY($1)",
+    [source.schemas],
+  );
+  if (rows[0].count === 0) {
+    throw new Error(
+      `Data source "${source.name}" has no tables in schema(s) ${source.schemas.join(", ")}`,
+    );
+  }
+  for (const table of source.tables ?? []) {
+    const candidates = table.includes(".")
+      ? [table]
+      : source.schemas.map((schema) => `${schema}.${table}`);
+    const { rows } = await pool.query(
+      "SELECT bool_or(to_regclass(name) IS NOT NULL) AS exists FROM unnest($1::text[]) AS name",
+      [candidates],
+    );
+    if (!rows[0].exists) {
+      throw new Error(`Table "${table}" configured for "${source.name}" does not exist`);
+    }
+  }
+};
+
+/**
+ * Verifies once per process that a data source is reachable and that its
+ * configured tables exist. The result is cached per source; a failed check is
+ * forgotten so the next call retries.
+ */
+export function ensureDatabaseReady(sourceId?: string) {
+  const source = getDataSource(sourceId);
+  let ready = readiness.get(source.id);
+  if (!ready) {
+    ready = verifySource(source).catch((e) => {
+      readiness.delete(source.id);
+      throw e;
+    });
+    readiness.set(source.id, ready);
+  }
+  return ready;
+}
@@ -0,0 +1,25 @@
+// Kept apart from ./export so client components can list formats without
+// bundling the file writers
+export const exportFormats = {
+  csv: { extension: "csv", contentType: "text/csv; charset=utf-8" },
+  json: { extension: "json", contentType: "application/json; charset=utf-8" },
+  ndjson: { extension: "ndjson", contentType: "application/x-ndjson; charset=utf-8" },
+  xlsx: {
+    extension: "xlsx",
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+  parquet: { extension: "parquet", contentType: "application/vnd.apache.parquet" },
+} as const;
+
+export type ExportFormat = keyof typeof exportFormats;
+
+export const isExportFormat = (format: string): format is ExportFormat =>
+  Object.hasOwn(exportFormats, format);
+
+// A file name made from the question, e.g. "unicorns-by-country"
+export const toFileName = (name: string | null | undefined, fallback: string) =>
+  (name ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || fallback;
@@ -0,0 +1,225 @@
+import { once } from "events";
+import { PassThrough, Writable } from "stream";
+import { pipeline } from "stream/promises";
+import ExcelJS from "exceljs";
+import { ParquetSchema, ParquetTransformer } from "@dsnp/parquetjs";
+import type { FieldDef } from "pg";
+import type { QueryBatch } from "./query-runner";
+import { ExportFormat } from "./export-formats";
+import { fieldKind, toResultValue, toUtcDate } from "./result-fields";
+import { FieldKind } from "./types";
+
+type ExportColumn = { name: string; kind: FieldKind };
+
+const toColumns = (fields: FieldDef[]): ExportColumn[] =>
+  fields.map((field) => ({ name: field.name, kind: fieldKind(field.dataTypeID) }));
+
+type Output = PassThrough;
+
+// Waits for the client to catch up; a closed download stops waiting too
+const write = async (output: Output, chunk: string | Buffer) => {
+  if (!output.write(chunk)) {
+    await Promise.race([once(output, "drain"), once(output, "close")]);
+  }
+};
+
+// Text form of a value for CSV cells
+const toText = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+// RFC 4180: quote fields containing separators, quotes or line breaks
+const escapeCsv = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Postgres sends bigint and numeric as text to keep their precision; JSON
+// numbers have no precision limit, so the text is written as a number
+const jsonNumber = /^-?\d+(\.\d+)?(e[+-]?\d+)?$/i;
+
+const toJson = (row: Record<string, unknown>, columns: ExportColumn[]) =>
+  `{${columns
+    .map(({ name, kind }) => {
+      const value: unknown = toResultValue(row[name], kind);
+      const json =
+        (kind === "bigint" || kind === "number") &&
+        typeof value === "string" &&
+        jsonNumber.test(value)
+          ? value
+          : JSON.stringify(value ?? null);
+      return `${JSON.stringify(name)}:${json}`;
+    })
+    .join(",")}}`;
+
+// Number and date values for spreadsheets and Parquet
+const toTyped = (value: unknown, kind: FieldKind) => {
+  if (value === null || value === undefined) return null;
+  switch (kind) {
+    case "integer":
+    case "number":
+      return Number(value);
+    case "bigint":
+      return BigInt(value as string);
+    case "date":
+      return value instanceof Date ? toUtcDate(value) : new Date(String(value));
+    case "timestamp":
+      return value instanceof Date ? value : new Date(String(value));
+    case "interval":
+      return toResultValue(value, kind);
+    default:
+      return value;
+  }
+};
+
+type Writer = (batches: AsyncIterable<QueryBatch>, output: Output) => Promise<void>;
+
+const writeCsv: Writer = async (batches, output) => {
+  let columns: ExportColumn[] | undefined;
+  for await (const { fields, rows } of batches) {
+    if (output.destroyed) return;
+    if (!columns) {
+      columns = toColumns(fields);
+      await write(output, columns.map(({ name }) => escapeCsv(name)).join(",") + "\r\n");
+    }
+    const lines = rows.map(
+      (row) =>
+        columns!
+          .map(({ name, kind }) => escapeCsv(toText(toResultValue(row[name], kind))))
+          .join(",") + "\r\n",
+    );
+    if (lines.length > 0) await write(output, lines.join(""));
+  }
+};
+
+const writeJson =
+  (lines: boolean): Writer =>
+  async (batches, output) => {
+    let count = 0;
+    if (!lines) await write(output, "[");
+    for await (const { fields, rows } of batches) {
+      if (output.destroyed) return;
+      const columns = toColumns(fields);
+      const chunk = rows
+        .map((row) => {
+          const json = toJson(row, columns);
+          const separator = lines ? "" : count++ > 0 ? ",\n" : "\n";
+          return lines ? json + "\n" : separator + json;
+        })
+        .join("");
+      if (chunk) await write(output, chunk);
+    }
+    if (!lines) await write(output, "\n]\n");
+  };
+
+const writeXlsx: Writer = async (batches, output) => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: output as Writable,
+    useStyles: true,
+  });
+  const sheet = workbook.addWorksheet("Results");
+  let columns: ExportColumn[] | undefined;
+  for await (const { fields, rows } of batches) {
+    if (output.destroyed) return;
+    if (!columns) {
+      columns = toColumns(fields);
+      const header = sheet.addRow(columns.map((column) => column.name));
+      header.font = { bold: true };
+      header.commit();
+    }
+    for (const row of rows) {
+      sheet
+        .addRow(
+          columns.map(({ name, kind }) => {
+            // Excel numbers are doubles; bigints beyond 2^53 stay exact as text
+            const value = toTyped(row[name], kind);
+            if ((kind === "json" || kind === "array") && value !== null) {
+              return JSON.stringify(value);
+            }
+            return typeof value === "bigint"
+              ? Number.isSafeInteger(Number(value))
+                ? Number(value)
+                : value.toString()
+              : value;
+          }),
+        )
+        .commit();
+    }
+  }
+  sheet.commit();
+  await workbook.commit();
+};
+
+const parquetTypes: Record<FieldKind, string> = {
+  integer: "INT32",
+  bigint: "INT64",
+  number: "DOUBLE",
+  boolean: "BOOLEAN",
+  date: "DATE",
+  timestamp: "TIMESTAMP_MILLIS",
+  json: "JSON",
+  array: "JSON",
+  interval: "UTF8",
+  text: "UTF8",
+};
+
+const writeParquet: Writer = async (batches, output) => {
+  const iterator = batches[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  if (first.done) return;
+  const columns = toColumns(first.value.fields);
+  const schema = new ParquetSchema(
+    Object.fromEntries(
+      columns.map(({ name, kind }) => [name, { type: parquetTypes[kind], optional: true }]),
+    ) as ConstructorParameters<typeof ParquetSchema>[0],
+  );
+
+  async function* records() {
+    try {
+      for (let batch = first; !batch.done; batch = await iterator.next()) {
+        for (const row of batch.value.rows) {
+          yield Object.fromEntries(
+            columns.flatMap(({ name, kind }) => {
+              const value = toTyped(row[name], kind);
+              // Optional Parquet fields are left out rather than set to null
+              return value === null ? [] : [[name, value]];
+            }),
+          );
+        }
+      }
+    } finally {
+      // Releases the query when the download is cancelled early
+      await iterator.return?.();
+    }
+  }
+
+  // The transformer encodes rows as they come and ends the output after the footer
+  await pipeline(records(), new ParquetTransformer(schema), output);
+};
+
+const writers: Record<ExportFormat, Writer> = {
+  csv: writeCsv,
+  json: writeJson(false),
+  ndjson: writeJson(true),
+  xlsx: writeXlsx,
+  parquet: writeParquet,
+};
+
+/**
+ * Writes query batches to a stream in `format`, with column names as headers
+ * and Postgres types carried over where the format has them. The stream is
+ * ended when the batches run out, and destroyed with the error if they fail.
+ */
+export function exportBatches(
+  batches: AsyncIterable<QueryBatch>,
+  format: ExportFormat,
+): PassThrough {
+  const output = new PassThrough();
+  writers[format](batches, output).then(
+    () => {
+      if (!output.writableEnded) output.end();
+    },
+    (e) => output.destroy(e),
+  );
+  return output;
+}
@@ -0,0 +1,256 @@
+import { toNumber } from "./result-fields";
+import { ColumnFormat, ColumnFormats, ResultField, ResultValue } from "./types";
+
+// Where a value is shown: table cells in full, chart axes as briefly as
+// possible, and chart tooltips in between
+export type FormatContext = "cell" | "axis" | "tooltip";
+
+export type FormatType = ColumnFormat["type"];
+
+type FormatOf<T extends FormatType> = Extract<ColumnFormat, { type: T }>;
+
+export type Formatter<T extends FormatType> = {
+  format: (
+    value: NonNullable<ResultValue>,
+    format: FormatOf<T>,
+    context: FormatContext,
+  ) => string;
+};
+
+const toText = (value: NonNullable<ResultValue>) =>
+  typeof value === "object" ? JSON.stringify(value) : String(value);
+
+// Applies `format` to numbers; anything else is shown as it is
+const numeric =
+  (format: (value: number) => string) => (value: NonNullable<ResultValue>) => {
+    const number = toNumber(value);
+    return number === null ? toText(value) : format(number);
+  };
+
+const compactNumber = (value: number) =>
+  value.toLocaleString(undefined, { notation: "compact", maximumFractionDigits: 1 });
+
+// Integers beyond 2^53 arrive as text and keep their exact digits
+const isLargeInteger = (value: NonNullable<ResultValue>) =>
+  typeof value === "string" &&
+  /^-?\d+$/.test(value) &&
+  !Number.isSafeInteger(Number(value));
+
+// Date-only values are read as UTC so the day never shifts with the time zone
+const toDate = (value: NonNullable<ResultValue>) => {
+  const text = String(value);
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : { date, dateOnly: /^\d{4}-\d{2}-\d{2}$/.test(text) };
+};
+
+const secondsPer = { ms: 0.001, s: 1, min: 60, h: 3600, d: 86400 };
+
+// ISO 8601 durations, as Postgres intervals are sent; months count as 30 days
+const isoDuration =
+  /^(-)?P(?:(\d+(?:\.\d+)?)Y)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+
+const toSeconds = (value: NonNullable<ResultValue>, unit: keyof typeof secondsPer) => {
+  const number = toNumber(value);
+  if (number !== null) return number * secondsPer[unit];
+  const match = typeof value === "string" ? isoDuration.exec(value) : null;
+  if (!match) return null;
+  const [, sign, years, months, weeks, days, hours, minutes, seconds] = match;
+  const total = [
+    [years, 365 * 86400],
+    [months, 30 * 86400],
+    [weeks, 7 * 86400],
+    [days, 86400],
+    [hours, 3600],
+    [minutes, 60],
+    [seconds, 1],
+  ].reduce((sum, [amount, size]) => sum + Number(amount ?? 0) * Number(size), 0);
+  return sign ? -total : total;
+};
+
+// "2d 4h", "1h 5m 3s", "250ms": the largest units, as many as the context allows
+const formatSeconds = (seconds: number, parts: number) => {
+  const sign = seconds < 0 ? "-" : "";
+  let rest = Math.abs(seconds);
+  if (rest < 1) return `${sign}${Math.round(rest * 1000)}ms`;
+  const units: [string, number][] = [
+    ["d", 86400],
+    ["h", 3600],
+    ["m", 60],
+    ["s", 1],
+  ];
+  const shown = units.flatMap(([label, size]) => {
+    const amount = Math.floor(rest / size);
+    rest -= amount * size;
+    return amount > 0 ? [`${amount}${label}`] : [];
+  });
+  return sign + shown.slice(0, parts).join(" ");
+};
+
+const toHttpUrl = (value: NonNullable<ResultValue>) => {
+  try {
+    const url = new URL(String(value));
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+/**
+ * The built-in formats. Each turns a non-null result value into display text
+ * for a table cell, an axis tick or a tooltip.
+ */
+export const formatters: { [T in FormatType]: Formatter<T> } = {
+  number: {
+    format: (value, { decimals }, context) =>
+      isLargeInteger(value)
+        ? BigInt(value as string).toLocaleString()
+        : numeric((number) =>
+            context === "axis"
+              ? compactNumber(number)
+              : number.toLocaleString(undefined, {
+                  minimumFractionDigits: decimals,
+                  maximumFractionDigits: decimals,
+                }),
+          )(value),
+  },
+  currency: {
+    format: (value, { currency = "USD", scale = 1 }, context) =>
+      numeric((number) => {
+        const amount = number * scale;
+        return amount.toLocaleString(undefined, {
+          style: "currency",
+          currency,
+          // Large amounts read better as $95B than in full
+          ...(context === "axis" || Math.abs(amount) >= 1e6
+            ? { notation: "compact", minimumFractionDigits: 0, maximumFractionDigits: 1 }
+            : {}),
+        });
+      })(value),
+  },
+  percent: {
+    format: (value, { ratio = true }, context) =>
+      numeric((number) =>
+        (ratio ? number : number / 100).toLocaleString(undefined, {
+          style: "percent",
+          maximumFractionDigits: context === "axis" ? 0 : 2,
+        }),
+      )(value),
+  },
+  compact: {
+    format: (value) => numeric(compactNumber)(value),
+  },
+  date: {
+    format: (value, _, context) => {
+      const parsed = toDate(value);
+      if (!parsed) return toText(value);
+      return parsed.date.toLocaleDateString(undefined, {
+        ...(context === "axis"
+          ? { year: "numeric", month: "short" }
+          : { year: "numeric", month: "short", day: "numeric" }),
+        timeZone: parsed.dateOnly ? "UTC" : undefined,
+      });
+    },
+  },
+  datetime: {
+    format: (value, _, context) => {
+      const parsed = toDate(value);
+      if (!parsed) return toText(value);
+      return parsed.date.toLocaleString(undefined, {
+        dateStyle: context === "cell" ? "medium" : "short",
+        timeStyle: "short",
+      });
+    },
+  },
+  duration: {
+    format: (value, { unit = "s" }, context) => {
+      const seconds = toSeconds(value, unit);
+      if (seconds === null) return toText(value);
+      return formatSeconds(seconds, context === "axis" ? 2 : 3);
+    },
+  },
+  url: {
+    format: (value, _, context) => {
+      const url = toHttpUrl(value);
+      if (!url) return toText(value);
+      return context === "cell"
+        ? url.href
+        : truncate(url.host + url.pathname.replace(/\/$/, ""), 30);
+    },
+  },
+  list: {
+    format: (value, { separator = ", " }, context) => {
+      const text = Array.isArray(value)
+        ? value.map((item) => (item === null ? "" : toText(item))).join(separator)
+        : toText(value);
+      return context === "axis" ? truncate(text, 20) : text;
+    },
+  },
+  boolean: {
+    format: (value) => {
+      if (value === true || value === "true") return "Yes";
+      if (value === false || value === "false") return "No";
+      return toText(value);
+    },
+  },
+  json: {
+    format: (value) => JSON.stringify(value),
+  },
+  text: {
+    format: (value, _, context) =>
+      context === "axis" ? truncate(toText(value), 20) : toText(value),
+  },
+};
+
+/**
+ * The format a column gets from its Postgres type alone.
+ */
+export const defaultFormat = ({ kind }: ResultField): ColumnFormat => {
+  switch (kind) {
+    case "integer":
+    case "bigint":
+    case "number":
+      return { type: "number" };
+    case "boolean":
+      return { type: "boolean" };
+    case "date":
+      return { type: "date" };
+    case "timestamp":
+      return { type: "datetime" };
+    case "interval":
+      return { type: "duration", unit: "s" };
+    case "array":
+      return { type: "list", separator: ", " };
+    case "json":
+      return { type: "json" };
+    default:
+      return { type: "text" };
+  }
+};
+
+/**
+ * A column's configured format, or else the one its type suggests.
+ */
+export const resolveFormat = (field: ResultField, formats?: ColumnFormats): ColumnFormat =>
+  formats?.[field.name] ?? defaultFormat(field);
+
+export const formatValue = (
+  value: ResultValue | undefined,
+  format: ColumnFormat,
+  context: FormatContext = "cell",
+): string => {
+  if (value === null || value === undefined) return "";
+  const formatter = formatters[format.type] as Formatter<FormatType>;
+  return formatter.format(value, format as never, context);
+};
+
+/**
+ * The address to link to for a value shown with the "url" format, if it is
+ * a web address.
+ */
+export const linkFor = (value: ResultValue | undefined, format: ColumnFormat) =>
+  format.type === "url" && value !== null && value !== undefined
+    ? toHttpUrl(value)?.href ?? null
+    : null;
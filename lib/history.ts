@@ -0,0 +1,61 @@
+import { createJsonFileStore, createJsonStore, createRecordId } from "./store";
+import { HistoryEntry, HistorySummary } from "./types";
+import { readPositiveInt } from "./utils";
+
+type HistoryResult = Pick<HistoryEntry, "fields" | "rows">;
+
+// Summaries are listed and searched together; each run's rows sit in a file of
+// their own, read only when that run is opened
+const store = createJsonStore<HistorySummary>("history");
+const results = createJsonFileStore<HistoryResult>("history");
+
+const toSummary = ({ fields, rows, ...summary }: HistoryEntry): HistorySummary => summary;
+
+/**
+ * Records a finished run, dropping the oldest entries beyond
+ * HISTORY_MAX_ENTRIES (default 200).
+ */
+export async function recordRun(
+  run: Omit<HistoryEntry, "id" | "createdAt">,
+): Promise<HistoryEntry> {
+  const entry: HistoryEntry = {
+    id: createRecordId(),
+    createdAt: new Date().toISOString(),
+    ...run,
+  };
+  const maxEntries = readPositiveInt(process.env.HISTORY_MAX_ENTRIES, 200);
+  // The rows are written first so every listed entry has them
+  await results.write(entry.id, { fields: entry.fields, rows: entry.rows });
+  let dropped: HistorySummary[] = [];
+  await store.update((entries) => {
+    const kept = [toSummary(entry), ...entries];
+    dropped = kept.slice(maxEntries);
+    return kept.slice(0, maxEntries);
+  });
+  await results.remove(dropped.map(({ id }) => id));
+  return entry;
+}
+
+/**
+ * Lists past runs, newest first, whose question or SQL contains `search`.
+ */
+export async function searchHistory(search = "", limit = 50): Promise<HistorySummary[]> {
+  const needle = search.trim().toLowerCase();
+  const entries = await store.read();
+  return entries
+    .filter(
+      (entry) =>
+        !needle ||
+        entry.question.toLowerCase().includes(needle) ||
+        entry.sql.toLowerCase().includes(needle),
+    )
+    .slice(0, limit);
+}
+
+export async function getHistoryEntry(id: string): Promise<HistoryEntry | undefined> {
+  const entries = await store.read();
+  const summary = entries.find((entry) => entry.id === id);
+  if (!summary) return undefined;
+  const result = await results.read(summary.id);
+  return { ...summary, fields: result?.fields ?? [], rows: result?.rows ?? [] };
+}
@@ -0,0 +1,136 @@
+import { createOpenAI, OpenAIProvider } from "@ai-sdk/openai";
+import { APICallError, LanguageModelV1 } from "ai";
+import { z } from "zod";
+import { createScriptedModel } from "./scripted-model";
+
+// The pipeline steps that call a model, each configurable on its own
+export type ModelStage = "sql" | "explanation" | "chart";
+
+const providerSchema = z.object({
+  id: z.string(),
+  baseURL: z.string().url(),
+  // Name of the environment variable holding the API key; local servers need none
+  apiKeyEnv: z.string().optional(),
+  compatibility: z.enum(["strict", "compatible"]).default("compatible"),
+});
+
+type ProviderConfig = z.infer<typeof providerSchema>;
+
+const builtInProviders: ProviderConfig[] = [
+  {
+    id: "groq",
+    baseURL: "https://api.groq.com/openai/v1",
+    apiKeyEnv: "GROQ_API_KEY",
+    compatibility: "compatible",
+  },
+  {
+    id: "openai",
+    baseURL: "https://api.openai.com/v1",
+    apiKeyEnv: "OPENAI_API_KEY",
+    compatibility: "strict",
+  },
+  {
+    id: "ollama",
+    baseURL: "http://localhost:11434/v1",
+    compatibility: "compatible",
+  },
+];
+
+const defaultModel = "groq:llama3-70b-8192";
+
+const stageEnv: Record<ModelStage, string> = {
+  sql: "LLM_SQL_MODEL",
+  explanation: "LLM_EXPLANATION_MODEL",
+  chart: "LLM_CHART_MODEL",
+};
+
+/**
+ * Built-in providers plus any from LLM_PROVIDERS, a JSON array of
+ * `{ id, baseURL, apiKeyEnv?, compatibility? }`. A custom entry with a
+ * built-in id replaces it.
+ */
+const loadProviders = () => {
+  const providers = new Map(builtInProviders.map((provider) => [provider.id, provider]));
+  const raw = process.env.LLM_PROVIDERS;
+  if (!raw) return providers;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new Error("LLM_PROVIDERS is not valid JSON");
+  }
+  const parsed = z.array(providerSchema).safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`LLM_PROVIDERS is invalid: ${parsed.error.message}`);
+  }
+  for (const provider of parsed.data) providers.set(provider.id, provider);
+  return providers;
+};
+
+let providers: Map<string, ProviderConfig> | undefined;
+
+const getProviders = () => (providers ??= loadProviders());
+
+const clients = new Map<string, OpenAIProvider>();
+
+const getClient = (config: ProviderConfig) => {
+  let client = clients.get(config.id);
+  if (!client) {
+    const apiKey = config.apiKeyEnv ? process.env[config.apiKeyEnv] : "not-needed";
+    if (!apiKey) {
+      throw new Error(
+        `${config.id} API key is not configured. Please set ${config.apiKeyEnv} in your .env file.`,
+      );
+    }
+    client = createOpenAI({
+      apiKey,
+      baseURL: config.baseURL,
+      compatibility: config.compatibility,
+    });
+    clients.set(config.id, client);
+  }
+  return client;
+};
+
+/**
+ * Resolves the model for a pipeline stage from settings written as
+ * "provider:model", e.g. "groq:llama3-70b-8192", "ollama:llama3.1" or
+ * "scripted:sql". LLM_<STAGE>_MODEL wins over LLM_MODEL.
+ */
+export function getModel(stage: ModelStage): LanguageModelV1 {
+  const spec = process.env[stageEnv[stage]] || process.env.LLM_MODEL || defaultModel;
+  const separator = spec.indexOf(":");
+  if (separator === -1) {
+    throw new Error(`Model "${spec}" must be written as provider:model`);
+  }
+  const providerId = spec.slice(0, separator);
+  const modelId = spec.slice(separator + 1);
+
+  if (providerId === "scripted") {
+    return createScriptedModel(modelId);
+  }
+
+  const provider = getProviders().get(providerId);
+  if (!provider) {
+    throw new Error(`Unknown model provider "${providerId}"`);
+  }
+  console.log(`Using ${stage} model ${modelId} from ${provider.baseURL}`);
+  return getClient(provider).chat(modelId);
+}
+
+/**
+ * Turns a failed model call into an error with a message fit for users,
+ * calling out exhausted quotas.
+ */
+export function toModelError(e: unknown): Error {
+  if (APICallError.isInstance(e)) {
+    const body = `${e.message} ${e.responseBody ?? ""}`.toLowerCase();
+    if (e.statusCode === 402 || e.statusCode === 429 || /quota|billing/.test(body)) {
+      return new Error(
+        "Model provider quota exceeded. Please check your billing details or use a different API key.",
+      );
+    }
+  }
+  return e instanceof Error ? e : new Error(String(e));
+}
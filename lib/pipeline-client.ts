@@ -0,0 +1,41 @@
+import { ConversationTurn, PipelineEvent } from "./types";
+
+/**
+ * Starts the pipeline for `question`, a follow-up to `history`, and yields its
+ * events as they arrive.
+ */
+export async function* streamPipeline(
+  question: string,
+  sourceId: string | undefined,
+  history: ConversationTurn[],
+  signal?: AbortSignal,
+): AsyncGenerator<PipelineEvent> {
+  const response = await fetch("/api/pipeline", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ question, sourceId, history }),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`Pipeline request failed with status ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffered += value;
+      const lines = buffered.split("\n");
+      buffered = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as PipelineEvent;
+      }
+    }
+    if (buffered.trim()) yield JSON.parse(buffered) as PipelineEvent;
+  } finally {
+    // Also stops the server-side pipeline when the caller stops early
+    await reader.cancel();
+  }
+}
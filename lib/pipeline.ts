@@ -0,0 +1,210 @@
+import { streamText } from "ai";
+import {
+  explainQuery,
+  generateChartConfig,
+  runQueryWithRepair,
+  validateSQLQuery,
+} from "@/app/actions";
+import { getModel, toModelError } from "./models";
+import { sqlGenerationPrompt } from "./prompts";
+import { getSourceSchema } from "./schema";
+import { getDataSource } from "./data-sources";
+import { recordRun } from "./history";
+import { ConversationTurn, HistoryEntry, PipelineEvent, PipelineStage } from "./types";
+import { cleanQuery } from "./utils";
+
+// Rows per "rows" event, small enough for the table to fill in visibly
+const rowBatchSize = 100;
+
+const errorMessage = (e: unknown) => toModelError(e).message;
+
+// Streams the SQL for `question` token by token, returning the full text
+async function* streamSql(
+  question: string,
+  sourceId: string | undefined,
+  history: ConversationTurn[],
+) {
+  const schema = await getSourceSchema(sourceId);
+  const { fullStream } = streamText({
+    model: getModel("sql"),
+    ...sqlGenerationPrompt(question, schema, history),
+    maxTokens: 500,
+    temperature: 0.7,
+  });
+
+  let text = "";
+  for await (const part of fullStream) {
+    if (part.type === "text-delta") {
+      text += part.textDelta;
+      yield { type: "sql-delta", delta: part.textDelta } satisfies PipelineEvent;
+    } else if (part.type === "error") {
+      throw part.error;
+    }
+  }
+  return text;
+}
+
+// Turns a follow-up step into an event, reporting failures as error events
+const settle = (stage: PipelineStage, step: Promise<PipelineEvent>) =>
+  step.catch(
+    (e): PipelineEvent => ({ type: "error", stage, message: errorMessage(e) }),
+  );
+
+async function* pipelineSteps(
+  question: string,
+  sourceId: string | undefined,
+  history: ConversationTurn[],
+): AsyncGenerator<PipelineEvent> {
+  let sql: string;
+  try {
+    sql = cleanQuery(yield* streamSql(question, sourceId, history));
+  } catch (e) {
+    yield { type: "error", stage: "generating", message: errorMessage(e) };
+    return;
+  }
+  yield { type: "sql", sql };
+
+  try {
+    const validation = await validateSQLQuery(sql, sourceId);
+    yield { type: "validation", valid: validation.valid, issues: validation.issues };
+  } catch (e) {
+    yield { type: "error", stage: "validating", message: errorMessage(e) };
+    return;
+  }
+
+  // Invalid SQL still goes to runQueryWithRepair, which asks the model to fix it
+  yield { type: "execution-start", sql };
+  let outcome;
+  try {
+    outcome = await runQueryWithRepair(question, sql, sourceId);
+  } catch (e) {
+    yield { type: "error", stage: "running", message: errorMessage(e) };
+    return;
+  }
+
+  const { attempts, result } = outcome;
+  const finalAttempt = attempts[attempts.length - 1];
+  yield { type: "attempts", attempts };
+  if (!result) {
+    const { error } = finalAttempt;
+    yield {
+      type: "error",
+      stage: error?.issues ? "validating" : "running",
+      message: error?.message ?? "The query failed.",
+      issues: error?.issues,
+    };
+    return;
+  }
+
+  const { fields, rows, rowCount, truncated, durationMs } = result;
+  // The first batch is sent even when empty, so the columns are known
+  for (let start = 0; start === 0 || start < rows.length; start += rowBatchSize) {
+    yield { type: "rows", fields, rows: rows.slice(start, start + rowBatchSize) };
+  }
+  yield { type: "result", rowCount, truncated, durationMs };
+  if (rows.length === 0) return;
+
+  // Chart and explanation are independent; send each as soon as it is ready
+  const followUps = [
+    settle(
+      "charting",
+      generateChartConfig(rows, question, fields).then(({ config }) => ({
+        type: "chart" as const,
+        config,
+      })),
+    ),
+    settle(
+      "explaining",
+      explainQuery(question, finalAttempt.sql, sourceId).then(({ explanations }) => ({
+        type: "explanation" as const,
+        explanations,
+      })),
+    ),
+  ];
+  const pending = new Map(
+    followUps.map((step, index) => [index, step.then((event) => ({ index, event }))]),
+  );
+  while (pending.size > 0) {
+    const { index, event } = await Promise.race(pending.values());
+    pending.delete(index);
+    yield event;
+  }
+}
+
+// Builds the history entry for a run from the events it produced
+const observeRun = (question: string) => {
+  const started = Date.now();
+  const run: Omit<HistoryEntry, "id" | "createdAt" | "sourceId"> = {
+    question,
+    sql: "",
+    status: "error",
+    rowCount: null,
+    durationMs: 0,
+    chartConfig: null,
+    fields: [],
+    rows: [],
+    truncated: false,
+  };
+
+  const observe = (event: PipelineEvent) => {
+    switch (event.type) {
+      case "sql":
+        run.sql = event.sql;
+        break;
+      case "attempts":
+        run.sql = event.attempts[event.attempts.length - 1].sql;
+        break;
+      case "rows":
+        run.fields = event.fields;
+        run.rows.push(...event.rows);
+        break;
+      case "result":
+        run.status = event.rowCount > 0 ? "success" : "empty";
+        run.rowCount = event.rowCount;
+        run.truncated = event.truncated;
+        run.durationMs = Date.now() - started;
+        break;
+      case "chart":
+        run.chartConfig = event.config;
+        break;
+      case "error":
+        // Chart and explanation failures leave the result intact
+        if (run.rowCount === null) {
+          run.error = event.message;
+          run.durationMs = Date.now() - started;
+        }
+        break;
+    }
+  };
+
+  return { run, observe };
+};
+
+/**
+ * Runs the whole pipeline for one question: generate SQL, validate it, run it
+ * (repairing it if needed), then chart and explain the result. Progress and
+ * partial results are yielded as they become available. A failed step ends
+ * the run with an "error" event. Finished runs are recorded in the history;
+ * the last event is always "done".
+ * `history` holds the earlier turns of the conversation, oldest first.
+ */
+export async function* runPipeline(
+  question: string,
+  sourceId?: string,
+  history: ConversationTurn[] = [],
+): AsyncGenerator<PipelineEvent> {
+  const { run, observe } = observeRun(question);
+  for await (const event of pipelineSteps(question, sourceId, history)) {
+    observe(event);
+    yield event;
+  }
+
+  try {
+    const entry = await recordRun({ ...run, sourceId: getDataSource(sourceId).id });
+    yield { type: "recorded", id: entry.id };
+  } catch (e) {
+    // Losing a history entry must not fail the run
+    console.error("Failed to record query history:", e);
+  }
+  yield { type: "done" };
+}
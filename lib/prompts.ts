@@ -0,0 +1,38 @@
+import { buildSchemaPrompt } from "./schema";
+import { ConversationTurn, DatabaseSchema } from "./types";
+
+// Older turns rarely matter to a follow-up and only lengthen the prompt
+const maxHistoryTurns = 5;
+
+const formatHistory = (history: ConversationTurn[]) =>
+  history
+    .slice(-maxHistoryTurns)
+    .map(
+      (turn) => `Question: ${turn.question}
+SQL: ${turn.sql}
+Result: ${turn.rowCount} rows with columns ${turn.columns.join(", ")}`,
+    )
+    .join("\n\n");
+
+/**
+ * The system and user prompt for turning a question into SQL. Shared by the
+ * generateQuery action and the streaming pipeline so both ask the same thing.
+ * Earlier turns of the conversation let follow-ups such as "now only fintech"
+ * build on the previous query.
+ */
+export const sqlGenerationPrompt = (
+  input: string,
+  schema: DatabaseSchema,
+  history: ConversationTurn[] = [],
+) => ({
+  system: `You are a SQL (postgres) expert. Generate a SQL query to answer the user's question. The database schema is:
+
+${buildSchemaPrompt(schema)}`,
+  prompt: history.length
+    ? `Earlier questions in this conversation, oldest first:
+
+${formatHistory(history)}
+
+Generate a SQL query for: ${input}. This may be a follow-up to the earlier questions; when it refers to them, build on their SQL. Return ONLY the SQL query with no additional text or explanation.`
+    : `Generate a SQL query for: ${input}. Return ONLY the SQL query with no additional text or explanation.`,
+});
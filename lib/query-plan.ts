@@ -0,0 +1,119 @@
+import { PlanNode, QueryPlan } from "./types";
+
+// A node as EXPLAIN (FORMAT JSON) writes it; only the keys read here
+type RawPlan = {
+  "Node Type": string;
+  "Startup Cost": number;
+  "Total Cost": number;
+  "Plan Rows": number;
+  "Actual Rows"?: number;
+  "Actual Loops"?: number;
+  "Actual Total Time"?: number;
+  Plans?: RawPlan[];
+  [key: string]: unknown;
+};
+
+type RawExplain = [
+  { Plan: RawPlan; "Planning Time"?: number; "Execution Time"?: number },
+];
+
+// Plan keys shown as details, with the label each is shown under
+const detailKeys: [string, string | null][] = [
+  ["Join Type", null],
+  ["Relation Name", "on"],
+  ["Index Name", "using"],
+  ["CTE Name", "CTE"],
+  ["Hash Cond", "hash"],
+  ["Merge Cond", "merge"],
+  ["Join Filter", "join filter"],
+  ["Index Cond", "index"],
+  ["Filter", "filter"],
+  ["Rows Removed by Filter", "rows removed by filter"],
+  ["Group Key", "group by"],
+  ["Sort Key", "sort by"],
+  ["Sort Method", "sort method"],
+];
+
+const detailsOf = (raw: RawPlan) =>
+  detailKeys.flatMap(([key, label]) => {
+    const value = raw[key];
+    if (value === undefined || value === null) return [];
+    const text = Array.isArray(value) ? value.join(", ") : String(value);
+    if (key === "Relation Name" && raw.Alias && raw.Alias !== value) {
+      return [`${label} ${text} ${raw.Alias}`];
+    }
+    return [label ? `${label} ${text}` : text];
+  });
+
+// Time covers every loop; EXPLAIN reports it per loop
+const totalTime = (raw: RawPlan) =>
+  raw["Actual Total Time"] === undefined
+    ? null
+    : raw["Actual Total Time"] * (raw["Actual Loops"] ?? 1);
+
+// Aggregates are named the way EXPLAIN's text format names them
+const aggregateNames: Record<string, string> = {
+  Hashed: "HashAggregate",
+  Sorted: "GroupAggregate",
+  Mixed: "MixedAggregate",
+};
+
+const nodeTypeOf = (raw: RawPlan) =>
+  raw["Node Type"] === "Aggregate" && typeof raw.Strategy === "string"
+    ? aggregateNames[raw.Strategy] ?? "Aggregate"
+    : raw["Node Type"];
+
+const toPlanNode = (raw: RawPlan, total: number, analyzed: boolean): PlanNode => {
+  const children = raw.Plans ?? [];
+  // What the step costs itself, without the steps feeding it
+  const measure = (plan: RawPlan) => (analyzed ? totalTime(plan) ?? 0 : plan["Total Cost"]);
+  const own = Math.max(
+    0,
+    measure(raw) - children.reduce((sum, child) => sum + measure(child), 0),
+  );
+  return {
+    nodeType: nodeTypeOf(raw),
+    details: detailsOf(raw),
+    startupCost: raw["Startup Cost"],
+    totalCost: raw["Total Cost"],
+    planRows: raw["Plan Rows"],
+    actualRows:
+      raw["Actual Rows"] === undefined ? null : raw["Actual Rows"] * (raw["Actual Loops"] ?? 1),
+    actualTimeMs: totalTime(raw),
+    loops: raw["Actual Loops"] ?? null,
+    selfShare: total > 0 ? own / total : 0,
+    children: children.map((child) => toPlanNode(child, total, analyzed)),
+  };
+};
+
+// Row estimates off by more than this factor either way are called out
+const misestimateFactor = 10;
+
+/**
+ * True when an analyzed step returned far more or fewer rows than the planner
+ * expected. The estimate is for one loop, so it is compared with the actual
+ * rows per loop.
+ */
+export function isMisestimated({ planRows, actualRows, loops }: PlanNode) {
+  // Steps that never ran have nothing to compare
+  if (actualRows === null || !loops) return false;
+  const ratio = Math.max(actualRows / loops, 1) / Math.max(planRows, 1);
+  return ratio > misestimateFactor || ratio < 1 / misestimateFactor;
+}
+
+/**
+ * Reads the output of EXPLAIN (FORMAT JSON), with or without ANALYZE, into a
+ * plan tree. Each node gets the share of the total time or cost spent in it
+ * alone, so the slow steps stand out.
+ */
+export function toQueryPlan(raw: unknown, analyzed: boolean): QueryPlan {
+  const [explain] = raw as RawExplain;
+  const root = explain.Plan;
+  const total = analyzed ? totalTime(root) ?? 0 : root["Total Cost"];
+  return {
+    root: toPlanNode(root, total, analyzed),
+    analyzed,
+    planningTimeMs: explain["Planning Time"] ?? null,
+    executionTimeMs: explain["Execution Time"] ?? null,
+  };
+}
@@ -0,0 +1,250 @@
+import { ClientBase, escapeIdentifier, FieldDef, QueryConfig } from "pg";
+import { readPositiveInt } from "./utils";
+import { fieldKind, toResultValue } from "./result-fields";
+import { toQueryPlan } from "./query-plan";
+import { QueryPlan, QueryResult, ResultField, ResultPageRequest, Result } from "./types";
+
+export type QueryLimits = {
+  statementTimeoutMs: number;
+  idleInTransactionTimeoutMs: number;
+  maxRows: number;
+};
+
+export const getQueryLimits = (): QueryLimits => ({
+  statementTimeoutMs: readPositiveInt(process.env.QUERY_STATEMENT_TIMEOUT_MS, 10000),
+  idleInTransactionTimeoutMs: readPositiveInt(
+    process.env.QUERY_IDLE_IN_TRANSACTION_TIMEOUT_MS,
+    15000,
+  ),
+  maxRows: readPositiveInt(process.env.QUERY_MAX_ROWS, 1000),
+});
+
+// Starts a read-only transaction with the limits and search path applied
+const beginReadOnly = async (
+  client: ClientBase,
+  limits: QueryLimits,
+  searchPath?: string[],
+) => {
+  await client.query("BEGIN READ ONLY");
+  await client.query("SELECT set_config('statement_timeout', $1, true)", [
+    String(limits.statementTimeoutMs),
+  ]);
+  await client.query(
+    "SELECT set_config('idle_in_transaction_session_timeout', $1, true)",
+    [String(limits.idleInTransactionTimeoutMs)],
+  );
+  if (searchPath && searchPath.length > 0) {
+    await client.query("SELECT set_config('search_path', $1, true)", [
+      searchPath.map(escapeIdentifier).join(", "),
+    ]);
+  }
+};
+
+// Runs a query wrapped around the user's SQL through the extended protocol,
+// even without parameters, so Postgres refuses text that holds more than one
+// statement. pg's types do not list queryMode.
+const queryWrapped = (client: ClientBase, text: string, values: unknown[] = []) =>
+  client.query({ text, values, queryMode: "extended" } as QueryConfig);
+
+const comparisonOperators = { eq: "=", gt: ">", gte: ">=", lt: "<", lte: "<=" };
+
+// Escapes LIKE wildcards so the filter value matches literally
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+// WHERE and ORDER BY clauses for a page request, with filter values bound
+// as parameters and column names quoted
+const pageClauses = ({ sort, filters }: ResultPageRequest) => {
+  const values: string[] = [];
+  const conditions = filters.map(({ column, operator, value }) => {
+    const identifier = escapeIdentifier(column);
+    if (operator === "contains") {
+      values.push(`%${escapeLike(value)}%`);
+      return `CAST(${identifier} AS text) ILIKE $${values.length}`;
+    }
+    values.push(value);
+    return `${identifier} ${comparisonOperators[operator]} $${values.length}`;
+  });
+  return {
+    where: conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "",
+    orderBy:
+      sort.length > 0
+        ? ` ORDER BY ${sort
+            .map(
+              ({ column, direction }) =>
+                `${escapeIdentifier(column)} ${direction === "asc" ? "ASC" : "DESC"}`,
+            )
+            .join(", ")}`
+        : "",
+    values,
+  };
+};
+
+// Describes result columns with their type names and, for columns read
+// straight from a table, whether that column is NOT NULL. Outer joins can
+// still make such a column null, so nullable is only ever a hint.
+const describeFields = async (
+  client: ClientBase,
+  fields: FieldDef[],
+): Promise<ResultField[]> => {
+  if (fields.length === 0) return [];
+  const { rows } = await client.query(
+    `SELECT format_type(f.type_id, nullif(f.type_modifier, -1)) AS type_name,
+            coalesce(a.attnotnull, false) AS not_null
+       FROM unnest($1::oid[], $2::int[], $3::oid[], $4::int[])
+            WITH ORDINALITY AS f(type_id, type_modifier, table_id, column_id, position)
+       LEFT JOIN pg_attribute a ON a.attrelid = f.table_id AND a.attnum = f.column_id
+      ORDER BY f.position`,
+    [
+      fields.map((field) => field.dataTypeID),
+      fields.map((field) => field.dataTypeModifier),
+      fields.map((field) => field.tableID),
+      fields.map((field) => field.columnID),
+    ],
+  );
+  return fields.map((field, index) => ({
+    name: field.name,
+    dataTypeID: field.dataTypeID,
+    typeName: rows[index].type_name,
+    kind: fieldKind(field.dataTypeID),
+    nullable: !rows[index].not_null,
+  }));
+};
+
+const toResultRows = (rows: Record<string, unknown>[], fields: ResultField[]): Result[] =>
+  rows.map((row) =>
+    Object.fromEntries(
+      fields.map(({ name, kind }) => [name, toResultValue(row[name], kind)]),
+    ),
+  );
+
+/**
+ * Runs an already validated SELECT inside a read-only transaction. The query is
+ * wrapped so Postgres stops after `maxRows + 1` rows; the extra row only tells
+ * us the result was truncated and is dropped before returning. `searchPath`
+ * makes unqualified table names resolve within the data source's schemas.
+ *
+ * With `page`, the wrapping query filters, sorts and slices the result in the
+ * database instead, and counts the filtered rows so the caller can page
+ * through all of them. A page holds at most `maxRows` rows.
+ *
+ * Rows come back as plain JSON values, described by the result's fields.
+ */
+export async function runReadOnlyQuery(
+  client: ClientBase,
+  sql: string,
+  limits: QueryLimits = getQueryLimits(),
+  searchPath?: string[],
+  page?: ResultPageRequest,
+): Promise<QueryResult> {
+  try {
+    await beginReadOnly(client, limits, searchPath);
+
+    const start = Date.now();
+    if (page) {
+      const { where, orderBy, values } = pageClauses(page);
+      const limit = Math.min(page.limit, limits.maxRows);
+      const { rows: counted } = await queryWrapped(
+        client,
+        `SELECT count(*) AS total FROM (${sql}) AS paged_query${where}`,
+        values,
+      );
+      const { fields, rows } = await queryWrapped(
+        client,
+        `SELECT * FROM (${sql}) AS paged_query${where}${orderBy} LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+        [...values, limit, page.offset],
+      );
+      const durationMs = Date.now() - start;
+      const resultFields = await describeFields(client, fields);
+      return {
+        fields: resultFields,
+        rows: toResultRows(rows, resultFields),
+        rowCount: rows.length,
+        truncated: false,
+        durationMs,
+        page: { offset: page.offset, limit, totalRows: Number(counted[0].total) },
+      };
+    }
+
+    const { fields, rows } = await queryWrapped(
+      client,
+      `SELECT * FROM (${sql}) AS capped_query LIMIT $1`,
+      [limits.maxRows + 1],
+    );
+    const durationMs = Date.now() - start;
+    const truncated = rows.length > limits.maxRows;
+    const kept = truncated ? rows.slice(0, limits.maxRows) : rows;
+    const resultFields = await describeFields(client, fields);
+    return {
+      fields: resultFields,
+      rows: toResultRows(kept, resultFields),
+      rowCount: kept.length,
+      truncated,
+      durationMs,
+    };
+  } finally {
+    // Nothing can have been written, so always roll back
+    await client.query("ROLLBACK");
+  }
+}
+
+/**
+ * Explains an already validated SELECT in the same read-only transaction as
+ * runReadOnlyQuery, wrapped in the same row cap, so the plan is the one that
+ * runs. With `analyze` the query really executes, within the statement
+ * timeout, and the plan carries actual rows and timings.
+ */
+export async function explainReadOnlyQuery(
+  client: ClientBase,
+  sql: string,
+  limits: QueryLimits = getQueryLimits(),
+  searchPath?: string[],
+  analyze = false,
+): Promise<QueryPlan> {
+  try {
+    await beginReadOnly(client, limits, searchPath);
+    const { rows } = await queryWrapped(
+      client,
+      `EXPLAIN (FORMAT JSON${analyze ? ", ANALYZE" : ""}) SELECT * FROM (${sql}) AS capped_query LIMIT $1`,
+      [limits.maxRows + 1],
+    );
+    return toQueryPlan(rows[0]["QUERY PLAN"], analyze);
+  } finally {
+    await client.query("ROLLBACK");
+  }
+}
+
+// Rows as pg parses them, for callers that convert values themselves
+export type QueryBatch = {
+  fields: FieldDef[];
+  rows: Record<string, unknown>[];
+};
+
+/**
+ * Like runReadOnlyQuery, but reads up to `limits.maxRows` rows through a
+ * cursor, `batchSize` at a time, so large results never sit in memory whole.
+ * Stopping the iteration early closes the transaction.
+ */
+export async function* streamReadOnlyQuery(
+  client: ClientBase,
+  sql: string,
+  limits: QueryLimits,
+  searchPath?: string[],
+  batchSize = 1000,
+): AsyncGenerator<QueryBatch> {
+  try {
+    await beginReadOnly(client, limits, searchPath);
+    await queryWrapped(
+      client,
+      `DECLARE streamed_query NO SCROLL CURSOR FOR SELECT * FROM (${sql}) AS capped_query LIMIT $1`,
+      [limits.maxRows],
+    );
+    for (let first = true; ; first = false) {
+      const { fields, rows } = await client.query(`FETCH ${batchSize} FROM streamed_query`);
+      // The first batch is yielded even when empty, so callers learn the columns
+      if (first || rows.length > 0) yield { fields, rows };
+      if (rows.length < batchSize) return;
+    }
+  } finally {
+    await client.query("ROLLBACK");
+  }
+}
@@ -1,6 +1,6 @@
 import { Config } from "./types";
 
-type InputDataPoint = Record<string, string | number>;
+type InputDataPoint = Record<string, string | number | null>;
 
 interface TransformedDataPoint {
   [key: string]: string | number | null;
@@ -23,7 +23,9 @@ export function transformDataForMultiLineChart(
   // console.log("Fields:", fields);
 
   const xAxisField = xKey ?? 'year'; // Assuming 'year' is always the x-axis
-  const lineField = fields.find(field => lineCategories?.includes(data[0][field] as string)) || '';
+  const lineField =
+    chartConfig.seriesKey ??
+    (fields.find(field => lineCategories?.includes(data[0][field] as string)) || '');
 
   // console.log("X-axis field:", xAxisField);
   // console.log("Line field:", lineField);
@@ -54,3 +56,34 @@ export function transformDataForMultiLineChart(
     lineFields: lineCategories ?? []
   };
 }
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+/**
+ * Counts `values` in `bins` equal-width bins spanning the smallest to the
+ * largest value. Each bin holds values from its start up to its end; the last
+ * one includes its end too.
+ */
+export function binValues(values: number[], bins: number): HistogramBin[] {
+  if (values.length === 0) return [];
+  const min = values.reduce((a, b) => Math.min(a, b));
+  const max = values.reduce((a, b) => Math.max(a, b));
+  // All values equal: one bin holds them all
+  const count = max === min ? 1 : bins;
+  const width = max === min ? 1 : (max - min) / bins;
+
+  const result: HistogramBin[] = Array.from({ length: count }, (_, index) => ({
+    start: min + index * width,
+    end: index === count - 1 ? max : min + (index + 1) * width,
+    count: 0,
+  }));
+  for (const value of values) {
+    const index = Math.min(Math.floor((value - min) / width), count - 1);
+    result[index].count++;
+  }
+  return result;
+}
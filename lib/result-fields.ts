@@ -0,0 +1,74 @@
+import { FieldKind, ResultField, ResultValue } from "./types";
+
+// Postgres type OIDs, see pg_type
+const kindsByOid: Record<number, FieldKind> = {
+  16: "boolean",
+  20: "bigint",
+  21: "integer",
+  23: "integer",
+  700: "number",
+  701: "number",
+  1700: "number",
+  1082: "date",
+  1114: "timestamp",
+  1184: "timestamp",
+  1186: "interval",
+  114: "json",
+  3802: "json",
+  // Arrays of the types above, and of text and varchar
+  1000: "array",
+  1005: "array",
+  1007: "array",
+  1016: "array",
+  1021: "array",
+  1022: "array",
+  1231: "array",
+  1182: "array",
+  1115: "array",
+  1185: "array",
+  199: "array",
+  3807: "array",
+  1009: "array",
+  1015: "array",
+};
+
+export const fieldKind = (dataTypeID: number): FieldKind => kindsByOid[dataTypeID] ?? "text";
+
+// pg parses DATE values to local midnight; this is the same day at UTC midnight
+export const toUtcDate = (value: Date) =>
+  new Date(Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()));
+
+/**
+ * A value parsed by pg as JSON: DATE values as YYYY-MM-DD, timestamps as
+ * ISO 8601, intervals as ISO 8601 durations, everything else as it is.
+ */
+export const toResultValue = (value: unknown, kind: FieldKind): ResultValue => {
+  if (value instanceof Date) {
+    return kind === "date" ? toUtcDate(value).toISOString().slice(0, 10) : value.toISOString();
+  }
+  if (kind === "interval" && value !== null && typeof value === "object" && "toISOString" in value) {
+    return (value as { toISOString: () => string }).toISOString();
+  }
+  if (Array.isArray(value)) return value.map((item) => toResultValue(item, kind));
+  return (value ?? null) as ResultValue;
+};
+
+export const isNumericKind = (kind: FieldKind) =>
+  kind === "integer" || kind === "bigint" || kind === "number";
+
+export const isTemporalKind = (kind: FieldKind) => kind === "date" || kind === "timestamp";
+
+/**
+ * Reads the number in a numeric column's value, which may be text to keep
+ * its precision. Null for anything that is not a number.
+ */
+export const toNumber = (value: ResultValue): number | null => {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || value.trim() === "") return null;
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+};
+
+// Result fields keyed by column name
+export const fieldsByName = (fields: ResultField[]) =>
+  new Map(fields.map((field) => [field.name, field]));
@@ -0,0 +1,105 @@
+import { fieldsByName, isNumericKind, toNumber } from "./result-fields";
+import {
+  FieldKind,
+  Result,
+  ResultField,
+  ResultFilter,
+  ResultPageRequest,
+  ResultValue,
+} from "./types";
+
+const operatorPrefixes: [string, ResultFilter["operator"]][] = [
+  [">=", "gte"],
+  ["<=", "lte"],
+  [">", "gt"],
+  ["<", "lt"],
+  ["=", "eq"],
+];
+
+/**
+ * Reads a column filter as typed by the user: "london" matches text
+ * containing it, while "> 1000", "<= 2020-01-01" or "= Fintech" compare.
+ * Returns null for an empty filter.
+ */
+export function parseFilterInput(column: string, input: string): ResultFilter | null {
+  const trimmed = input.trim();
+  for (const [prefix, operator] of operatorPrefixes) {
+    if (trimmed.startsWith(prefix)) {
+      const value = trimmed.slice(prefix.length).trim();
+      return value ? { column, operator, value } : null;
+    }
+  }
+  return trimmed ? { column, operator: "contains", value: trimmed } : null;
+}
+
+// Compares numeric columns as numbers and the others as text; nulls sort
+// last, like Postgres does in ascending order
+const compareValues = (a: ResultValue, b: ResultValue, kind: FieldKind) => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  if (isNumericKind(kind)) {
+    const [left, right] = [toNumber(a), toNumber(b)];
+    if (left !== null && right !== null) return left - right;
+  }
+  const [leftText, rightText] = [a, b].map((value) =>
+    typeof value === "object" ? JSON.stringify(value) : String(value),
+  );
+  return leftText.localeCompare(rightText);
+};
+
+const matchesFilter = (
+  row: Result,
+  { column, operator, value }: ResultFilter,
+  kind: FieldKind,
+) => {
+  const cell = row[column];
+  if (cell === null || cell === undefined) return false;
+  if (operator === "contains") {
+    const text = typeof cell === "object" ? JSON.stringify(cell) : String(cell);
+    return text.toLowerCase().includes(value.toLowerCase());
+  }
+  const comparison = compareValues(cell, value, kind);
+  switch (operator) {
+    case "eq":
+      return comparison === 0;
+    case "gt":
+      return comparison > 0;
+    case "gte":
+      return comparison >= 0;
+    case "lt":
+      return comparison < 0;
+    case "lte":
+      return comparison <= 0;
+  }
+};
+
+/**
+ * Sorts, filters and pages rows already in the browser, the way the database
+ * would for a complete result.
+ */
+export function applyPageRequest(
+  rows: Result[],
+  fields: ResultField[],
+  request: ResultPageRequest,
+): { rows: Result[]; totalRows: number } {
+  const byName = fieldsByName(fields);
+  const kindOf = (column: string) => byName.get(column)?.kind ?? "text";
+  const filtered = rows.filter((row) =>
+    request.filters.every((filter) => matchesFilter(row, filter, kindOf(filter.column))),
+  );
+  const sorted =
+    request.sort.length === 0
+      ? filtered
+      : [...filtered].sort((a, b) => {
+          for (const { column, direction } of request.sort) {
+            const comparison = compareValues(a[column], b[column], kindOf(column));
+            if (comparison !== 0) return direction === "asc" ? comparison : -comparison;
+          }
+          return 0;
+        });
+  return {
+    rows: sorted.slice(request.offset, request.offset + request.limit),
+    totalRows: filtered.length,
+  };
+}
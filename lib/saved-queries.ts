@@ -0,0 +1,42 @@
+import { createJsonStore, createRecordId } from "./store";
+import { SavedQuery } from "./types";
+
+const store = createJsonStore<SavedQuery>("saved-queries");
+
+export async function saveQuery(
+  query: Omit<SavedQuery, "id" | "createdAt">,
+): Promise<SavedQuery> {
+  const saved: SavedQuery = {
+    id: createRecordId(),
+    createdAt: new Date().toISOString(),
+    ...query,
+  };
+  await store.update((queries) => [saved, ...queries]);
+  return saved;
+}
+
+export async function getSavedQuery(id: string): Promise<SavedQuery | undefined> {
+  const queries = await store.read();
+  return queries.find((query) => query.id === id);
+}
+
+/**
+ * Replaces fields of a saved query, keeping its id and permalink.
+ */
+export async function updateSavedQuery(
+  id: string,
+  change: Partial<Pick<SavedQuery, "chartConfig">>,
+): Promise<SavedQuery> {
+  let updated: SavedQuery | undefined;
+  await store.update((queries) =>
+    queries.map((query) => {
+      if (query.id !== id) return query;
+      updated = { ...query, ...change };
+      return updated;
+    }),
+  );
+  if (!updated) {
+    throw new Error("This saved query no longer exists");
+  }
+  return updated;
+}
@@ -0,0 +1,270 @@
+import { Pool } from "pg";
+import { readPositiveInt } from "./utils";
+import { ColumnSchema, DatabaseSchema, TableSchema } from "./types";
+import { getDataSource, isTableAllowed } from "./data-sources";
+import { getPool } from "./db";
+
+const relationKinds: Record<string, TableSchema["kind"]> = {
+  r: "table",
+  p: "table",
+  v: "view",
+  m: "materialized view",
+};
+
+const tablesQuery = `
+  SELECT n.nspname AS schema, c.relname AS name, c.relkind AS kind,
+    obj_description(c.oid, 'pg_class') AS comment
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = ANY($1) AND c.relkind IN ('r', 'p', 'v', 'm')
+  ORDER BY n.nspname, c.relname`;
+
+const columnsQuery = `
+  SELECT n.nspname AS schema, c.relname AS table, a.attname AS name,
+    format_type(a.atttypid, a.atttypmod) AS type, a.atttypid AS type_oid,
+    NOT a.attnotnull AS nullable, pg_get_expr(d.adbin, d.adrelid) AS default,
+    col_description(c.oid, a.attnum) AS comment
+  FROM pg_attribute a
+  JOIN pg_class c ON c.oid = a.attrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+  WHERE n.nspname = ANY($1) AND c.relkind IN ('r', 'p', 'v', 'm')
+    AND a.attnum > 0 AND NOT a.attisdropped
+  ORDER BY n.nspname, c.relname, a.attnum`;
+
+const constraintsQuery = `
+  SELECT n.nspname AS schema, c.relname AS table, con.contype AS type,
+    ARRAY(
+      SELECT a.attname FROM unnest(con.conkey) WITH ORDINALITY k(attnum, ord)
+      JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+      ORDER BY k.ord
+    )::text[] AS columns,
+    fn.nspname AS foreign_schema, fc.relname AS foreign_table,
+    ARRAY(
+      SELECT a.attname FROM unnest(con.confkey) WITH ORDINALITY k(attnum, ord)
+      JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+      ORDER BY k.ord
+    )::text[] AS foreign_columns
+  FROM pg_constraint con
+  JOIN pg_class c ON c.oid = con.conrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  LEFT JOIN pg_class fc ON fc.oid = con.confrelid
+  LEFT JOIN pg_namespace fn ON fn.oid = fc.relnamespace
+  WHERE n.nspname = ANY($1) AND con.contype IN ('p', 'f')`;
+
+const enumsQuery = `
+  SELECT e.enumtypid AS type_oid,
+    array_agg(e.enumlabel ORDER BY e.enumsortorder)::text[] AS values
+  FROM pg_enum e
+  GROUP BY e.enumtypid`;
+
+// Cheap enough to run on every cache check; only a changed value triggers a
+// full introspection
+const fingerprintQuery = `
+  SELECT md5(
+    coalesce((
+      SELECT string_agg(
+        c.oid || ':' || c.relname || ':' || a.attname || ':' || a.atttypid || ':' ||
+          a.attnotnull || ':' || coalesce(col_description(c.oid, a.attnum), '') || ':' ||
+          coalesce(obj_description(c.oid, 'pg_class'), ''),
+        ',' ORDER BY c.oid, a.attnum)
+      FROM pg_attribute a
+      JOIN pg_class c ON c.oid = a.attrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = ANY($1) AND c.relkind IN ('r', 'p', 'v', 'm')
+        AND a.attnum > 0 AND NOT a.attisdropped
+    ), '') || '|' ||
+    coalesce((
+      SELECT string_agg(con.oid::text, ',' ORDER BY con.oid)
+      FROM pg_constraint con
+      JOIN pg_class c ON c.oid = con.conrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = ANY($1) AND con.contype IN ('p', 'f')
+    ), '') || '|' ||
+    coalesce((SELECT string_agg(enumtypid || ':' || enumlabel, ',' ORDER BY enumtypid, enumsortorder) FROM pg_enum), '')
+  ) AS fingerprint`;
+
+async function readFingerprint(pool: Pool, schemas: string[]) {
+  const { rows } = await pool.query(fingerprintQuery, [schemas]);
+  return rows[0].fingerprint as string;
+}
+
+/**
+ * Reads tables, columns, keys, comments and enum values for `schemas` from
+ * pg_catalog.
+ */
+export async function introspectSchema(
+  pool: Pool,
+  schemas: string[],
+): Promise<DatabaseSchema> {
+  const [tables, columns, constraints, enums, fingerprint] = await Promise.all([
+    pool.query(tablesQuery, [schemas]),
+    pool.query(columnsQuery, [schemas]),
+    pool.query(constraintsQuery, [schemas]),
+    pool.query(enumsQuery),
+    readFingerprint(pool, schemas),
+  ]);
+
+  const enumValues = new Map<number, string[]>(
+    enums.rows.map((row) => [Number(row.type_oid), row.values]),
+  );
+
+  const byName = new Map<string, TableSchema>();
+  const key = (schema: string, table: string) => `${schema}.${table}`;
+
+  for (const row of tables.rows) {
+    byName.set(key(row.schema, row.name), {
+      schema: row.schema,
+      name: row.name,
+      kind: relationKinds[row.kind],
+      comment: row.comment,
+      columns: [],
+      primaryKey: [],
+      foreignKeys: [],
+    });
+  }
+
+  for (const row of columns.rows) {
+    const table = byName.get(key(row.schema, row.table));
+    if (!table) continue;
+    const column: ColumnSchema = {
+      name: row.name,
+      type: row.type,
+      typeOid: Number(row.type_oid),
+      nullable: row.nullable,
+      default: row.default,
+      comment: row.comment,
+    };
+    const values = enumValues.get(column.typeOid);
+    if (values) column.enumValues = values;
+    table.columns.push(column);
+  }
+
+  for (const row of constraints.rows) {
+    const table = byName.get(key(row.schema, row.table));
+    if (!table) continue;
+    if (row.type === "p") {
+      table.primaryKey = row.columns;
+    } else {
+      table.foreignKeys.push({
+        columns: row.columns,
+        references: {
+          schema: row.foreign_schema,
+          table: row.foreign_table,
+          columns: row.foreign_columns,
+        },
+      });
+    }
+  }
+
+  return {
+    tables: Array.from(byName.values()),
+    fingerprint,
+    introspectedAt: new Date().toISOString(),
+  };
+}
+
+type CacheEntry = {
+  schema: DatabaseSchema;
+  checkedAt: number;
+};
+
+const globalForSchema = globalThis as unknown as {
+  schemaCache?: Map<string, CacheEntry>;
+};
+const schemaCache = (globalForSchema.schemaCache ??= new Map());
+
+/**
+ * Returns the cached schema for `cacheKey`. Once the cache is older than
+ * SCHEMA_CACHE_TTL_MS the fingerprint is re-read, and the schema is only
+ * introspected again when it has changed.
+ */
+export async function getDatabaseSchema(
+  pool: Pool,
+  { cacheKey, schemas }: { cacheKey: string; schemas: string[] },
+): Promise<DatabaseSchema> {
+  const ttl = readPositiveInt(process.env.SCHEMA_CACHE_TTL_MS, 60000);
+  const cached = schemaCache.get(cacheKey);
+
+  if (cached && Date.now() - cached.checkedAt < ttl) {
+    return cached.schema;
+  }
+  if (cached && (await readFingerprint(pool, schemas)) === cached.schema.fingerprint) {
+    cached.checkedAt = Date.now();
+    return cached.schema;
+  }
+
+  const schema = await introspectSchema(pool, schemas);
+  schemaCache.set(cacheKey, { schema, checkedAt: Date.now() });
+  return schema;
+}
+
+/**
+ * Returns the schema of a data source, limited to the tables it allows.
+ */
+export async function getSourceSchema(sourceId?: string): Promise<DatabaseSchema> {
+  const source = getDataSource(sourceId);
+  const schema = await getDatabaseSchema(getPool(source.id), {
+    cacheKey: source.id,
+    schemas: source.schemas,
+  });
+  return {
+    ...schema,
+    tables: schema.tables.filter((table) => isTableAllowed(source, table.schema, table.name)),
+  };
+}
+
+export function invalidateSchemaCache(cacheKey?: string) {
+  if (cacheKey) {
+    schemaCache.delete(cacheKey);
+  } else {
+    schemaCache.clear();
+  }
+}
+
+const qualifiedName = (schema: string, name: string) =>
+  schema === "public" ? name : `${schema}.${name}`;
+
+const describeColumn = (column: ColumnSchema) => {
+  let line = `  ${column.name} ${column.type}`;
+  if (!column.nullable) line += " NOT NULL";
+  const notes = [
+    column.comment,
+    column.enumValues &&
+      `one of: ${column.enumValues.map((value) => `'${value}'`).join(", ")}`,
+  ].filter(Boolean);
+  return { line, notes: notes.join("; ") };
+};
+
+/**
+ * Renders the schema as annotated DDL for use in model prompts.
+ */
+export function buildSchemaPrompt(schema: DatabaseSchema) {
+  return schema.tables
+    .map((table) => {
+      const lines = table.columns.map(describeColumn);
+      if (table.primaryKey.length > 0) {
+        lines.push({ line: `  PRIMARY KEY (${table.primaryKey.join(", ")})`, notes: "" });
+      }
+      for (const fk of table.foreignKeys) {
+        lines.push({
+          line: `  FOREIGN KEY (${fk.columns.join(", ")}) REFERENCES ${qualifiedName(
+            fk.references.schema,
+            fk.references.table,
+          )} (${fk.references.columns.join(", ")})`,
+          notes: "",
+        });
+      }
+
+      const body = lines
+        .map(({ line, notes }, index) => {
+          const separator = index < lines.length - 1 ? "," : "";
+          return notes ? `${line}${separator} -- ${notes}` : `${line}${separator}`;
+        })
+        .join("\n");
+      const header = table.comment ? `-- ${table.comment}\n` : "";
+      const keyword = table.kind === "table" ? "TABLE" : table.kind.toUpperCase();
+      return `${header}${keyword} ${qualifiedName(table.schema, table.name)} (\n${body}\n);`;
+    })
+    .join("\n\n");
+}
@@ -0,0 +1,112 @@
+import fs from "fs";
+import { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from "ai";
+
+export type ScriptedResponse = {
+  // Only answer calls to this scripted model id (e.g. "sql" for "scripted:sql")
+  model?: string;
+  // Substring, or regular expression source when `regex` is set, that the
+  // flattened prompt must contain
+  match?: string;
+  regex?: boolean;
+  // Remove the response after it has been used once
+  once?: boolean;
+  // Raw model output; objects for generateObject are given as JSON text
+  text: string;
+};
+
+export type ScriptedCall = {
+  model: string;
+  prompt: string;
+  response: string;
+};
+
+const globalForScript = globalThis as unknown as {
+  scriptedResponses?: ScriptedResponse[];
+  scriptedCalls?: ScriptedCall[];
+};
+
+const loadScriptFile = (): ScriptedResponse[] => {
+  const file = process.env.LLM_SCRIPT_FILE;
+  if (!file) return [];
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+};
+
+const getResponses = () => (globalForScript.scriptedResponses ??= loadScriptFile());
+const getCalls = () => (globalForScript.scriptedCalls ??= []);
+
+/**
+ * Replaces the scripted responses, e.g. from a test, and forgets recorded calls.
+ */
+export function setScriptedResponses(responses: ScriptedResponse[]) {
+  globalForScript.scriptedResponses = [...responses];
+  globalForScript.scriptedCalls = [];
+}
+
+export const getScriptedCalls = (): readonly ScriptedCall[] => getCalls();
+
+const flattenPrompt = (prompt: LanguageModelV1CallOptions["prompt"]) =>
+  prompt
+    .map((message) =>
+      typeof message.content === "string"
+        ? message.content
+        : message.content
+            .map((part) => ("text" in part ? part.text : ""))
+            .join(""),
+    )
+    .join("\n");
+
+const findResponse = (model: string, prompt: string) => {
+  const responses = getResponses();
+  const index = responses.findIndex(
+    (response) =>
+      (!response.model || response.model === model) &&
+      (!response.match ||
+        (response.regex
+          ? new RegExp(response.match).test(prompt)
+          : prompt.includes(response.match))),
+  );
+  if (index === -1) {
+    throw new Error(
+      `No scripted response for model "${model}" matches the prompt: ${prompt.slice(0, 200)}`,
+    );
+  }
+  const response = responses[index];
+  if (response.once) responses.splice(index, 1);
+  getCalls().push({ model, prompt, response: response.text });
+  return response.text;
+};
+
+/**
+ * A language model that answers from a script instead of calling a provider,
+ * so the whole pipeline can run offline.
+ */
+export function createScriptedModel(modelId: string): LanguageModelV1 {
+  const rawCall = { rawPrompt: null, rawSettings: {} };
+  const usage = { promptTokens: 0, completionTokens: 0 };
+
+  return {
+    specificationVersion: "v1",
+    provider: "scripted",
+    modelId,
+    defaultObjectGenerationMode: "json",
+    async doGenerate(options) {
+      const text = findResponse(modelId, flattenPrompt(options.prompt));
+      return { text, finishReason: "stop", usage, rawCall };
+    },
+    async doStream(options) {
+      const text = findResponse(modelId, flattenPrompt(options.prompt));
+      // Word-sized deltas, whitespace included, like a real token stream
+      const chunks = text.match(/\s*\S+\s*/g) ?? [text];
+      const stream = new ReadableStream<LanguageModelV1StreamPart>({
+        start(controller) {
+          for (const chunk of chunks) {
+            controller.enqueue({ type: "text-delta", textDelta: chunk });
+          }
+          controller.enqueue({ type: "finish", finishReason: "stop", usage });
+          controller.close();
+        },
+      });
+      return { stream, rawCall };
+    },
+  };
+}
@@ -1,134 +1,184 @@
 import fs from 'fs';
-import csv from 'csv-parser';
 import path from 'path';
+import { parseArgs } from 'util';
 import 'dotenv/config';
-import { Client } from 'pg';
+import { closePools, withClient } from './db';
+import {
+  ColumnMapping,
+  columnTypes,
+  ColumnType,
+  DateOrder,
+  importCsv,
+  ImportMode,
+  ImportOptions,
+  toColumnName,
+} from './csv-import';
 
-interface UnicornData {
-  Company: string;
-  'Valuation ($B)': string;
-  'Date Joined': string;
-  Country: string;
-  City: string;
-  Industry: string;
-  'Select Investors': string;
-}
+const usage = `Usage: pnpm run seed [file.csv] [options]
 
-function formatDate(dateString: string | undefined): string | null {
-  const formats = [
-    'YYYY-MM-DD',
-    'DD-MM-YY',
-    'DD/MM/YY',
-    'MM/DD/YY',
-    'MM-DD-YY'
-  ];
+Loads a CSV file into a table with COPY. Without a file, loads unicorns.csv
+into the unicorns table, updating companies that are already there.
 
-  for (const format of formats) {
-    const parsedDate = moment(dateString, format);
-    if (parsedDate.isValid()) {
-      return parsedDate.format('YYYY-MM-DD');
-    }
-  }
-  return dateString;
-}
-  if (!dateString) {
-    console.warn(`Date string is undefined`);
-    return null;
-  }
-  const parts = dateString.split('/');
-  if (parts.length === 3) {
-    const day = parts[0].padStart(2, '0');
-    const month = parts[1].padStart(2, '0');
-    const year = parts[2];
-    return `${year}-${month}-${day}`;
-  }
-  console.warn(`Could not parse date: ${dateString}`);
-  return null;
-}
+Options:
+  --table <name>         Target table, optionally schema-qualified
+                         (default: named after the file)
+  --mode <mode>          insert, upsert or replace (default: insert)
+  --key <columns>        Comma-separated columns identifying a row, required
+                         for upsert and the primary key of a new table
+  --type <header=type>   Type of a column: ${columnTypes.join(', ')};
+                         repeat for more columns (default: inferred)
+  --columns <file.json>  Mapping of CSV headers to { name, type, scale,
+                         required, skip }
+  --date-order <order>   How to read dates such as 04/07/2017: mdy, dmy or
+                         ymd (default: mdy)
+  --delimiter <char>     Field separator (default: ,)
+  --batch-size <rows>    Rows per COPY (default: 5000)
+  --rejects <file>       Where rejected rows are written
+                         (default: <file>.rejects.csv)
+  --source <id>          Data source to load into (default: the first one)
+  --help                 Show this help`;
 
-export async function seed() {
-  const client = new Client({
-    host: process.env.POSTGRES_HOST,
-    port: Number(process.env.POSTGRES_PORT),
-    database: process.env.POSTGRES_DATABASE,
-    user: process.env.POSTGRES_USER,
-    password: process.env.POSTGRES_PASSWORD
-  });
-  await client.connect();
+const unicornsTable = `
+  CREATE TABLE IF NOT EXISTS unicorns (
+    id SERIAL PRIMARY KEY,
+    company VARCHAR(255) NOT NULL UNIQUE,
+    valuation DECIMAL(10, 2) NOT NULL,
+    date_joined DATE,
+    country VARCHAR(255) NOT NULL,
+    city VARCHAR(255) NOT NULL,
+    industry VARCHAR(255) NOT NULL,
+    select_investors TEXT NOT NULL
+  );
+`;
 
-  const createTable = await client.query(`
-    CREATE TABLE IF NOT EXISTS unicorns (
-      id SERIAL PRIMARY KEY,
-      company VARCHAR(255) NOT NULL UNIQUE,
-      valuation DECIMAL(10, 2) NOT NULL,
-      date_joined DATE,
-      country VARCHAR(255) NOT NULL,
-      city VARCHAR(255) NOT NULL,
-      industry VARCHAR(255) NOT NULL,
-      select_investors TEXT NOT NULL
-    );
-  `);
+// The CB Insights export: valuations are in billions, stored in millions
+const unicornColumns: Record<string, ColumnMapping> = {
+  Company: { required: true },
+  'Valuation ($B)': { name: 'valuation', type: 'numeric', scale: 1000, required: true },
+  'Date Joined': { type: 'date' },
+  Country: { required: true },
+  City: { required: true },
+  Industry: { required: true },
+  'Select Investors': { required: true },
+};
 
-  console.log(`Created "unicorns" table`);
+const oneOf = <T extends string>(value: string, allowed: readonly T[], option: string): T => {
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new Error(`--${option} must be one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+};
 
-  const results: any[] = [];
-  const csvFilePath = path.join(process.cwd(), 'unicorns.csv');
+// Mappings from --columns, with --type overriding the type of a column
+const readMappings = (columnsFile: string | undefined, types: string[]) => {
+  const mappings: Record<string, ColumnMapping> = columnsFile
+    ? JSON.parse(fs.readFileSync(columnsFile, 'utf8'))
+    : {};
+  for (const entry of types) {
+    const separator = entry.lastIndexOf('=');
+    if (separator < 1) throw new Error(`--type expects header=type, got "${entry}"`);
+    const header = entry.slice(0, separator);
+    mappings[header] = {
+      ...mappings[header],
+      type: oneOf<ColumnType>(entry.slice(separator + 1), columnTypes, 'type'),
+    };
+  }
+  return mappings;
+};
 
-  await new Promise((resolve, reject) => {
-    fs.createReadStream(csvFilePath)
-      .pipe(csv())
-      .on('data', (data) => results.push(data))
-      .on('end', async () => {
-        try {
-          for (const row of results) {
-            // Remove leading commas from all fields
-            const cleanRow = {
-              Company: row.Company ? row.Company.replace(/^\s*,/, '').trim() : '',
-              'Valuation ($B)': row['Valuation ($B)'] ? row['Valuation ($B)'].replace(/^\s*,/, '').trim() : '',
-              'Date Joined': row['Date Joined'] ? row['Date Joined'].replace(/^\s*,/, '').trim() : '',
-              Country: row.Country ? row.Country.replace(/^\s*,/, '').trim() : '',
-              City: row.City ? row.City.replace(/^\s*,/, '').trim() : '',
-              Industry: row.Industry ? row.Industry.replace(/^\s*,/, '').trim() : '',
-              'Select Investors': row['Select Investors'] ? row['Select Investors'].replace(/^\s*,/, '').trim() : ''
-            };
+type SeedOptions = ImportOptions & {
+  source?: string;
+  // SQL run before the import, e.g. to create the table with its constraints
+  setup?: string;
+};
 
-            if (!cleanRow.Company || !cleanRow['Valuation ($B)'] || !cleanRow.Country || !cleanRow.City || !cleanRow.Industry || !cleanRow['Select Investors']) {
-              console.warn('Skipping row with missing required fields:', cleanRow);
-              continue;
-            }
-            await client.query(
-              `INSERT INTO unicorns (company, valuation, date_joined, country, city, industry, select_investors)
-               VALUES ($1, $2, $3, $4, $5, $6, $7)
-               ON CONFLICT (company) DO NOTHING`,
-              [
-                cleanRow.Company,
-                parseFloat(cleanRow['Valuation ($B)']) * 1000,
-                formatDate(cleanRow['Date Joined']),
-                cleanRow.Country,
-                cleanRow.City,
-                cleanRow.Industry,
-                cleanRow['Select Investors']
-              ]
-            );
-          }
-          resolve(results);
-        } catch (error) {
-          reject(error);
-        }
-      })
-      .on('error', (error) => {
-        reject(error);
-      });
+const readOptions = (args: string[]): SeedOptions | null => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      table: { type: 'string' },
+      mode: { type: 'string' },
+      key: { type: 'string' },
+      type: { type: 'string', multiple: true },
+      columns: { type: 'string' },
+      'date-order': { type: 'string' },
+      delimiter: { type: 'string' },
+      'batch-size': { type: 'string' },
+      rejects: { type: 'string' },
+      source: { type: 'string' },
+      help: { type: 'boolean' },
+    },
   });
+  if (values.help) return null;
+  if (positionals.length > 1) throw new Error('Give one CSV file at a time');
 
-  await client.end();
-  console.log(`Seeded ${results.length} unicorns`);
+  const [file] = positionals;
+  const batchSize = values['batch-size'] === undefined ? undefined : Number(values['batch-size']);
+  if (batchSize !== undefined && !(Number.isInteger(batchSize) && batchSize > 0)) {
+    throw new Error('--batch-size must be a positive whole number');
+  }
+  const common = {
+    dateOrder: oneOf<DateOrder>(values['date-order'] ?? 'mdy', ['mdy', 'dmy', 'ymd'], 'date-order'),
+    delimiter: values.delimiter,
+    batchSize,
+    rejectsFile: values.rejects,
+    source: values.source,
+  };
 
+  if (!file) {
+    return {
+      ...common,
+      file: path.join(process.cwd(), 'unicorns.csv'),
+      table: 'unicorns',
+      mode: 'upsert',
+      key: ['company'],
+      columns: unicornColumns,
+      setup: unicornsTable,
+    };
+  }
   return {
-    createTable,
-    unicorns: results,
+    ...common,
+    file,
+    table: values.table ?? toColumnName(path.basename(file, path.extname(file)), 0),
+    mode: oneOf<ImportMode>(values.mode ?? 'insert', ['insert', 'upsert', 'replace'], 'mode'),
+    key: values.key?.split(',').map((name) => name.trim()).filter(Boolean),
+    columns: readMappings(values.columns, values.type ?? []),
   };
-}
+};
+
+export async function seed(args = process.argv.slice(2)) {
+  const options = readOptions(args);
+  if (!options) {
+    console.log(usage);
+    return null;
+  }
+  if (!fs.existsSync(options.file)) {
+    throw new Error(`${options.file} does not exist`);
+  }
 
+  const { source, setup, ...importOptions } = options;
+  const summary = await withClient(source, async (client) => {
+    if (setup) await client.query(setup);
+    return importCsv(client, importOptions);
+  });
+
+  if (summary.created) {
+    console.log(
+      `Created "${summary.table}" with ` +
+        summary.columns.map((column) => `${column.name} ${column.type}`).join(', '),
+    );
+  }
+  console.log(`Loaded ${summary.loaded} rows into "${summary.table}" (${summary.mode})`);
+  if (summary.rejectsFile) {
+    console.warn(`Rejected ${summary.rejected} rows, written to ${summary.rejectsFile}`);
+  }
+  return summary;
+}
 
-seed().catch(console.error);
\ No newline at end of file
+seed()
+  .catch((e) => {
+    console.error(e instanceof Error ? e.message : e);
+    process.exitCode = 1;
+  })
+  .finally(closePools);
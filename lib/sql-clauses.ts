@@ -0,0 +1,129 @@
+import { parse } from "pgsql-ast-parser";
+import { isNode, Node, walk } from "./sql-validator";
+
+export type ClauseKind =
+  | "cte"
+  | "column"
+  | "window function"
+  | "table"
+  | "join"
+  | "filter"
+  | "group by"
+  | "having"
+  | "order by"
+  | "limit"
+  | "values";
+
+// A part of a query, as character offsets into its text
+export type SqlClause = {
+  kind: ClauseKind;
+  start: number;
+  end: number;
+};
+
+type Location = { start: number; end: number };
+
+const locationOf = (value: unknown): Location | undefined =>
+  isNode(value) ? value._location : undefined;
+
+const nodes = (value: unknown): Node[] => (Array.isArray(value) ? value.filter(isNode) : []);
+
+// The predicates of a condition joined by AND, each explained on its own
+const conjuncts = (expr: Node): Node[] =>
+  expr.type === "binary" && expr.op === "AND" && isNode(expr.left) && isNode(expr.right)
+    ? [...conjuncts(expr.left), ...conjuncts(expr.right)]
+    : [expr];
+
+const hasWindow = (expr: unknown) => {
+  let found = false;
+  walk(expr, (node) => {
+    if (node.type === "call" && isNode(node.over)) found = true;
+  });
+  return found;
+};
+
+const collectClauses = (statement: Node, clauses: SqlClause[]) => {
+  const add = (kind: ClauseKind, location: Location | undefined) => {
+    if (location && location.end > location.start) clauses.push({ kind, ...location });
+  };
+  // One clause covering a list, e.g. all GROUP BY expressions
+  const addSpan = (kind: ClauseKind, items: Node[]) => {
+    const locations = items.map(locationOf).filter((location) => location !== undefined);
+    if (locations.length === 0) return;
+    add(kind, { start: locations[0].start, end: locations[locations.length - 1].end });
+  };
+
+  switch (statement.type) {
+    case "with":
+      for (const binding of nodes(statement.bind)) {
+        add("cte", locationOf(binding.alias));
+        if (isNode(binding.statement)) collectClauses(binding.statement, clauses);
+      }
+      if (isNode(statement.in)) collectClauses(statement.in, clauses);
+      return;
+    case "with recursive":
+      add("cte", locationOf(statement.alias));
+      if (isNode(statement.bind)) collectClauses(statement.bind, clauses);
+      if (isNode(statement.in)) collectClauses(statement.in, clauses);
+      return;
+    case "union":
+    case "union all":
+      if (isNode(statement.left)) collectClauses(statement.left, clauses);
+      if (isNode(statement.right)) collectClauses(statement.right, clauses);
+      return;
+    case "values":
+      add("values", statement._location);
+      return;
+    case "select":
+      break;
+    default:
+      return;
+  }
+
+  for (const column of nodes(statement.columns)) {
+    add(hasWindow(column.expr) ? "window function" : "column", column._location);
+  }
+  for (const item of nodes(statement.from)) {
+    const join = isNode(item.join) ? item.join : null;
+    if (item.type === "statement" && isNode(item.statement)) {
+      // A subquery is split into its own clauses; only its join condition is left
+      collectClauses(item.statement, clauses);
+      if (join) add("join", locationOf(join.on));
+    } else {
+      // A joined item's location runs from the JOIN keyword to its condition
+      add(join ? "join" : "table", item._location);
+    }
+  }
+  if (isNode(statement.where)) {
+    conjuncts(statement.where).forEach((predicate) => add("filter", predicate._location));
+  }
+  addSpan("group by", nodes(statement.groupBy));
+  add("having", locationOf(statement.having));
+  addSpan("order by", nodes(statement.orderBy));
+  add("limit", locationOf(statement.limit));
+};
+
+/**
+ * Splits a query into the parts worth explaining one by one: CTEs, SELECT
+ * list items, window functions, tables and joins, WHERE predicates, GROUP BY,
+ * HAVING, ORDER BY and LIMIT. Parts are in query order and never overlap.
+ * Empty when the query does not parse.
+ */
+export function splitClauses(sql: string): SqlClause[] {
+  let statement: Node | undefined;
+  try {
+    [statement] = parse(sql, { locationTracking: true }) as unknown as Node[];
+  } catch {
+    return [];
+  }
+  if (!statement) return [];
+
+  const clauses: SqlClause[] = [];
+  collectClauses(statement, clauses);
+  clauses.sort((a, b) => a.start - b.start);
+  return clauses.reduce<SqlClause[]>((kept, clause) => {
+    const last = kept[kept.length - 1];
+    if (!last || clause.start >= last.end) kept.push(clause);
+    return kept;
+  }, []);
+}
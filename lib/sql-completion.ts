@@ -0,0 +1,141 @@
+import { sqlKeywords, SqlToken, tokenizeSql } from "./sql-highlight";
+import { EditorTable } from "./types";
+
+export type CompletionItem = {
+  label: string;
+  kind: "table" | "column" | "keyword";
+  // The column's type, for columns
+  detail?: string;
+  // What replaces the typed prefix, quoted when needed
+  insert: string;
+};
+
+export type Completion = {
+  // Offsets of the prefix the chosen item replaces
+  from: number;
+  to: number;
+  items: CompletionItem[];
+};
+
+// Keywords after which a table name is expected
+const tableKeywords = new Set(["FROM", "JOIN"]);
+
+const unquote = (name: string) =>
+  name.startsWith('"') ? name.slice(1, -1).replace(/""/g, '"') : name.toLowerCase();
+
+const quoteIfNeeded = (name: string) =>
+  /^[a-z_][a-z0-9_$]*$/.test(name) && !sqlKeywords.includes(name.toUpperCase())
+    ? name
+    : `"${name.replace(/"/g, '""')}"`;
+
+const isName = (token: SqlToken | undefined) =>
+  token !== undefined && (token.type === "identifier" || token.type === "function");
+
+// The table a name in the query refers to, with or without its schema
+const findTable = (tables: EditorTable[], name: string) =>
+  tables.find((table) => table.name === name) ??
+  tables.find((table) => table.name.split(".").pop() === name);
+
+/**
+ * The tables read in FROM and JOIN clauses, by the alias or name the query
+ * uses for them.
+ */
+const referencedTables = (tokens: SqlToken[], tables: EditorTable[]) => {
+  const references = new Map<string, EditorTable>();
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    const startsList = token.type === "keyword" && tableKeywords.has(token.text.toUpperCase());
+    if (!startsList) continue;
+    // FROM a, b c, schema.d AS e
+    let position = index + 1;
+    while (isName(tokens[position])) {
+      const parts = [unquote(tokens[position].text)];
+      position++;
+      while (tokens[position]?.text === "." && isName(tokens[position + 1])) {
+        parts.push(unquote(tokens[position + 1].text));
+        position += 2;
+      }
+      const table = findTable(tables, parts.join("."));
+      if (tokens[position]?.text.toUpperCase() === "AS") position++;
+      const alias = isName(tokens[position]) ? unquote(tokens[position].text) : null;
+      if (alias) position++;
+      if (table) {
+        references.set(parts[parts.length - 1], table);
+        if (alias) references.set(alias, table);
+      }
+      if (tokens[position]?.text !== ",") break;
+      position++;
+    }
+  }
+  return references;
+};
+
+const columnItems = (table: EditorTable): CompletionItem[] =>
+  table.columns.map((column) => ({
+    label: column.name,
+    kind: "column",
+    detail: column.type,
+    insert: quoteIfNeeded(column.name),
+  }));
+
+const tableItems = (tables: EditorTable[]): CompletionItem[] =>
+  tables.map((table) => ({
+    label: table.name,
+    kind: "table",
+    insert: table.name.split(".").map(quoteIfNeeded).join("."),
+  }));
+
+const keywordItems: CompletionItem[] = sqlKeywords.map((keyword) => ({
+  label: keyword,
+  kind: "keyword",
+  insert: keyword,
+}));
+
+/**
+ * Suggestions for the word being typed at `cursor`: the columns of a table
+ * after its alias and a dot, tables after FROM or JOIN, and otherwise the
+ * columns of the tables the query reads, then tables and keywords.
+ */
+export function completeSql(sql: string, cursor: number, tables: EditorTable[]): Completion {
+  const before = sql.slice(0, cursor);
+  const prefix = /[\w$]*$/.exec(before)?.[0] ?? "";
+  const from = cursor - prefix.length;
+  const tokens = tokenizeSql(sql).filter(
+    (token) => token.type !== "text" && token.type !== "comment",
+  );
+  const previous = tokens.filter((token) => token.start + token.text.length <= from);
+  const last = previous[previous.length - 1];
+
+  let items: CompletionItem[];
+  if (last?.text === "." && isName(previous[previous.length - 2])) {
+    const qualifier = unquote(previous[previous.length - 2].text);
+    const table = referencedTables(tokens, tables).get(qualifier) ?? findTable(tables, qualifier);
+    // Otherwise the qualifier may be a schema, leaving its tables to complete
+    items = table
+      ? columnItems(table)
+      : tables
+          .filter((table) => table.name.startsWith(`${qualifier}.`))
+          .map((table): CompletionItem => {
+            const name = table.name.slice(qualifier.length + 1);
+            return { label: name, kind: "table", insert: quoteIfNeeded(name) };
+          });
+  } else if (last?.type === "keyword" && tableKeywords.has(last.text.toUpperCase())) {
+    items = tableItems(tables);
+  } else {
+    const referenced = Array.from(new Set(referencedTables(tokens, tables).values()));
+    items = [...referenced.flatMap(columnItems), ...tableItems(tables), ...keywordItems];
+  }
+
+  const typed = prefix.toLowerCase();
+  const seen = new Set<string>();
+  return {
+    from,
+    to: cursor,
+    items: items.filter((item) => {
+      const key = `${item.kind}:${item.label}`;
+      if (seen.has(key) || !item.label.toLowerCase().startsWith(typed)) return false;
+      seen.add(key);
+      return true;
+    }),
+  };
+}
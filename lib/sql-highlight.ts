@@ -0,0 +1,69 @@
+// Splits SQL into tokens for syntax highlighting. It only has to look right,
+// not parse: anything it does not recognise is plain text.
+
+export type SqlTokenType =
+  | "keyword"
+  | "function"
+  | "identifier"
+  | "string"
+  | "number"
+  | "comment"
+  | "operator"
+  | "text";
+
+export type SqlToken = {
+  type: SqlTokenType;
+  text: string;
+  // Character offset of the token in the SQL
+  start: number;
+};
+
+export const sqlKeywords = [
+  "ALL", "AND", "ANY", "ARRAY", "AS", "ASC", "BETWEEN", "BY", "CASE", "CAST",
+  "CROSS", "CURRENT_DATE", "CURRENT_TIMESTAMP", "DESC", "DISTINCT", "ELSE",
+  "END", "EXCEPT", "EXISTS", "FALSE", "FETCH", "FILTER", "FIRST", "FOLLOWING",
+  "FROM", "FULL", "GROUP", "HAVING", "ILIKE", "IN", "INNER", "INTERSECT",
+  "INTERVAL", "IS", "JOIN", "LAST", "LATERAL", "LEFT", "LIKE", "LIMIT", "NATURAL",
+  "NOT", "NULL", "NULLS", "OFFSET", "ON", "OR", "ORDER", "OUTER", "OVER",
+  "PARTITION", "PRECEDING", "RANGE", "RECURSIVE", "RIGHT", "ROWS", "SELECT",
+  "SIMILAR", "THEN", "TRUE", "UNBOUNDED", "UNION", "USING", "VALUES", "WHEN",
+  "WHERE", "WINDOW", "WITH",
+];
+
+const keywords = new Set(sqlKeywords);
+
+// Tried in order at each position; the first match wins
+const patterns: [SqlTokenType, RegExp][] = [
+  ["comment", /^(?:--[^\n]*|\/\*[\s\S]*?(?:\*\/|$))/],
+  ["string", /^(?:[EeBbXx]?'(?:[^']|'')*(?:'|$)|\$(\w*)\$[\s\S]*?(?:\$\1\$|$))/],
+  ["identifier", /^"(?:[^"]|"")*(?:"|$)/],
+  ["number", /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/],
+  ["identifier", /^[A-Za-z_][\w$]*/],
+  ["operator", /^(?:::|<=|>=|<>|!=|\|\||[-+*/%<>=~!@#^&|`?.,;:()[\]{}])/],
+  ["text", /^(?:\s+|[\s\S])/],
+];
+
+/**
+ * The tokens of `sql`, covering every character in order.
+ */
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let position = 0;
+  while (position < sql.length) {
+    const rest = sql.slice(position);
+    for (const [type, pattern] of patterns) {
+      const match = pattern.exec(rest);
+      if (!match) continue;
+      const text = match[0];
+      let tokenType = type;
+      if (type === "identifier" && !text.startsWith('"')) {
+        if (keywords.has(text.toUpperCase())) tokenType = "keyword";
+        else if (/^\s*\(/.test(rest.slice(text.length))) tokenType = "function";
+      }
+      tokens.push({ type: tokenType, text, start: position });
+      position += text.length;
+      break;
+    }
+  }
+  return tokens;
+}
@@ -0,0 +1,299 @@
+import { parse, Statement } from "pgsql-ast-parser";
+import {
+  DatabaseSchema,
+  SqlValidationIssue,
+  SqlValidationResult,
+  TableReference,
+} from "./types";
+
+// Top-level statement types that can only read data
+const readOnlyStatementTypes = new Set([
+  "select",
+  "union",
+  "union all",
+  "values",
+  "with",
+  "with recursive",
+]);
+
+// query_to_xml and its relatives run SQL given as text or dump whole tables and schemas
+const xmlFunctions = ["query", "cursor", "table", "schema", "database"].flatMap((source) => [
+  `${source}_to_xml`,
+  `${source}_to_xmlschema`,
+  `${source}_to_xml_and_xmlschema`,
+]);
+
+// Functions that can stall the server, reach outside the database or touch the filesystem
+const forbiddenFunctions = [
+  ...xmlFunctions,
+  "pg_sleep",
+  "pg_sleep_for",
+  "pg_sleep_until",
+  "pg_read_file",
+  "pg_read_binary_file",
+  "pg_ls_dir",
+  "pg_stat_file",
+  "pg_terminate_backend",
+  "pg_cancel_backend",
+  "pg_reload_conf",
+  "set_config",
+];
+// Advisory locks outlive the query; large objects read and write server files
+const forbiddenFunctionPrefixes = ["dblink", "pg_advisory_", "lo_"];
+
+const isForbiddenFunction = (name: string) =>
+  forbiddenFunctions.includes(name) ||
+  forbiddenFunctionPrefixes.some((prefix) => name.startsWith(prefix));
+
+const isIdentifierChar = (char: string | undefined) =>
+  char !== undefined && /[A-Za-z0-9_$\u0080-\uffff]/.test(char);
+
+// Where a quoted string, identifier or dollar-quoted body starting at
+// `start` ends, by Postgres's rules
+const quotedEnd = (sql: string, start: number) => {
+  const quote = sql[start];
+  if (quote === "$") {
+    const tag = /^\$([A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)?\$/.exec(sql.slice(start));
+    if (!tag) return start + 1;
+    const end = sql.indexOf(tag[0], start + tag[0].length);
+    return end === -1 ? sql.length : end + tag[0].length;
+  }
+  // E'...' strings take backslash escapes; others only double the quote
+  const escapes =
+    quote === "'" && /[eE]/.test(sql[start - 1] ?? "") && !isIdentifierChar(sql[start - 2]);
+  for (let position = start + 1; position < sql.length; position++) {
+    if (escapes && sql[position] === "\\") {
+      position++;
+    } else if (sql[position] === quote) {
+      if (sql[position + 1] !== quote) return position + 1;
+      position++;
+    }
+  }
+  return sql.length;
+};
+
+/**
+ * Reads `sql` the way Postgres's lexer does, to catch text the AST parser
+ * would read differently: a block comment opened inside another, which
+ * Postgres nests and the parser does not, or a semicolon followed by more
+ * SQL. Either could hide a second statement from the checks below.
+ */
+const findHiddenStatements = (sql: string): SqlValidationIssue | null => {
+  // Where the first statement ended, at a semicolon
+  let end: number | null = null;
+  let position = 0;
+  while (position < sql.length) {
+    const char = sql[position];
+    const comment = sql.startsWith("--", position) || sql.startsWith("/*", position);
+    if (end !== null && !comment && !/[\s;]/.test(char)) {
+      return {
+        code: "multiple_statements",
+        message: "Only a single statement is allowed.",
+        location: { start: end, end: end + 1 },
+      };
+    }
+    if (char === ";") {
+      end = end ?? position;
+      position++;
+    } else if (sql.startsWith("--", position)) {
+      const lineEnd = sql.indexOf("\n", position);
+      position = lineEnd === -1 ? sql.length : lineEnd + 1;
+    } else if (sql.startsWith("/*", position)) {
+      const commentEnd = sql.indexOf("*/", position + 2);
+      const nested = sql.indexOf("/*", position + 2);
+      if (nested !== -1 && (commentEnd === -1 || nested < commentEnd)) {
+        return {
+          code: "ambiguous_syntax",
+          message: "Block comments inside block comments are not allowed.",
+          location: { start: nested, end: nested + 2 },
+        };
+      }
+      position = commentEnd === -1 ? sql.length : commentEnd + 2;
+    } else if (
+      char === "'" ||
+      char === '"' ||
+      (char === "$" && !isIdentifierChar(sql[position - 1]))
+    ) {
+      position = quotedEnd(sql, position);
+    } else {
+      position++;
+    }
+  }
+  return null;
+};
+
+export type Node = Record<string, unknown> & {
+  type?: string;
+  _location?: { start: number; end: number };
+};
+
+export const isNode = (value: unknown): value is Node =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Walks every object in the AST, depth first, calling `visit` on each node.
+ */
+export const walk = (value: unknown, visit: (node: Node) => void) => {
+  if (Array.isArray(value)) {
+    value.forEach((item) => walk(item, visit));
+    return;
+  }
+  if (!isNode(value)) return;
+  visit(value);
+  for (const [key, child] of Object.entries(value)) {
+    if (key !== "_location") walk(child, visit);
+  }
+};
+
+const inspectStatement = (statement: Statement): SqlValidationIssue[] => {
+  const issues: SqlValidationIssue[] = [];
+
+  if (!readOnlyStatementTypes.has(statement.type)) {
+    issues.push({
+      code: "statement_not_allowed",
+      message: `Only SELECT, WITH ... SELECT and VALUES statements are allowed, got ${statement.type.toUpperCase()}.`,
+      location: statement._location,
+    });
+    return issues;
+  }
+
+  walk(statement, (node) => {
+    // Data-modifying statements nested in CTEs or subqueries
+    // (a ForStatement is also typed "update", but has no `sets`)
+    if (
+      node.type === "insert" ||
+      node.type === "delete" ||
+      (node.type === "update" && "sets" in node)
+    ) {
+      issues.push({
+        code: "statement_not_allowed",
+        message: `${node.type.toUpperCase()} is not allowed inside a query.`,
+        location: node._location,
+      });
+    }
+
+    // SELECT ... FOR UPDATE / FOR SHARE take row locks
+    if (isNode(node.for)) {
+      issues.push({
+        code: "locking_clause",
+        message: `SELECT ... FOR ${String(node.for.type).toUpperCase()} is not allowed.`,
+        location: node.for._location,
+      });
+    }
+
+    if (node.type === "call" && isNode(node.function)) {
+      const name = String(node.function.name).toLowerCase();
+      if (isForbiddenFunction(name)) {
+        issues.push({
+          code: "forbidden_function",
+          message: `Function ${name}() is not allowed.`,
+          location: node._location,
+        });
+      }
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Collects the tables a statement reads from. Unqualified names that match a
+ * CTE defined anywhere in the statement are not tables and are skipped.
+ */
+const collectTables = (statement: Statement): TableReference[] => {
+  const cteNames = new Set<string>();
+  const tables: TableReference[] = [];
+
+  walk(statement, (node) => {
+    if (node.type === "with" && Array.isArray(node.bind)) {
+      for (const binding of node.bind) cteNames.add(binding.alias.name);
+    }
+    if (node.type === "with recursive" && isNode(node.alias)) {
+      cteNames.add(String(node.alias.name));
+    }
+    if (node.type === "table" && isNode(node.name)) {
+      const name = node.name as Node & { name: string; schema?: string };
+      tables.push({
+        ...(name.schema ? { schema: name.schema } : {}),
+        name: name.name,
+        location: name._location,
+      });
+    }
+  });
+
+  return tables.filter((table) => table.schema || !cteNames.has(table.name));
+};
+
+/**
+ * Checks that every referenced table exists in `schema`, resolving
+ * unqualified names through `searchPath` the way Postgres would.
+ */
+export function checkReferencedTables(
+  tables: TableReference[],
+  schema: DatabaseSchema,
+  searchPath: string[],
+): SqlValidationIssue[] {
+  const known = new Set(schema.tables.map((table) => `${table.schema}.${table.name}`));
+  return tables
+    .filter((table) =>
+      table.schema
+        ? !known.has(`${table.schema}.${table.name}`)
+        : !searchPath.some((path) => known.has(`${path}.${table.name}`)),
+    )
+    .map((table) => {
+      const name = table.schema ? `${table.schema}.${table.name}` : table.name;
+      return {
+        code: "unknown_table" as const,
+        message: `Table "${name}" does not exist or is not available in this data source.`,
+        location: table.location,
+      };
+    });
+}
+
+/**
+ * Parses `sql` and checks that it is a single read-only statement that calls
+ * no forbidden functions.
+ */
+export function validateSql(sql: string): SqlValidationResult {
+  const hidden = findHiddenStatements(sql);
+  if (hidden) {
+    return { valid: false, issues: [hidden] };
+  }
+
+  let statements: Statement[];
+  try {
+    statements = parse(sql, { locationTracking: true });
+  } catch (e) {
+    const message = e instanceof Error ? e.message.split("\n")[0] : String(e);
+    return {
+      valid: false,
+      issues: [{ code: "parse_error", message: `Could not parse query: ${message}` }],
+    };
+  }
+
+  if (statements.length === 0) {
+    return {
+      valid: false,
+      issues: [{ code: "empty_query", message: "The query is empty." }],
+    };
+  }
+
+  if (statements.length > 1) {
+    return {
+      valid: false,
+      issues: [
+        {
+          code: "multiple_statements",
+          message: `Only a single statement is allowed, got ${statements.length}.`,
+          location: statements[1]._location,
+        },
+      ],
+    };
+  }
+
+  const issues = inspectStatement(statements[0]);
+  if (issues.length > 0) {
+    return { valid: false, issues };
+  }
+  return { valid: true, issues: [], tables: collectTables(statements[0]) };
+}
@@ -0,0 +1,89 @@
+import { randomBytes } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+// Kept on globalThis so Next.js hot reloads in development share the write queues
+const globalForStore = globalThis as unknown as {
+  storeQueues?: Map<string, Promise<unknown>>;
+};
+const queues = (globalForStore.storeQueues ??= new Map());
+
+// Read on every call so tests can point the stores at a temporary directory
+const getDataDir = () => process.env.APP_DATA_DIR || path.join(process.cwd(), ".data");
+
+// Short enough for a link, long enough not to be guessed
+export const createRecordId = () => randomBytes(9).toString("base64url");
+
+const readJson = async <T>(file: string): Promise<T | undefined> => {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw e;
+  }
+};
+
+// Writes to a temporary file that is renamed into place, so a crash never
+// leaves a half-written file
+const writeJson = async (target: string, value: unknown) => {
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const temporary = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(value));
+  await fs.rename(temporary, target);
+};
+
+export type JsonStore<T> = {
+  read: () => Promise<T[]>;
+  // Replaces the stored items with the result of `change`, one change at a time
+  update: (change: (items: T[]) => T[]) => Promise<T[]>;
+};
+
+/**
+ * A list of records kept in `<APP_DATA_DIR>/<name>.json`. Every change
+ * rewrites the whole file, so keep the records small.
+ */
+export function createJsonStore<T>(name: string): JsonStore<T> {
+  const file = () => path.join(getDataDir(), `${name}.json`);
+
+  const read = async (): Promise<T[]> => (await readJson<T[]>(file())) ?? [];
+
+  const write = (items: T[]) => writeJson(file(), items);
+
+  const update = (change: (items: T[]) => T[]) => {
+    const previous = queues.get(name) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const items = change(await read());
+        await write(items);
+        return items;
+      });
+    queues.set(name, next);
+    return next;
+  };
+
+  return { read, update };
+}
+
+export type JsonFileStore<T> = {
+  read: (id: string) => Promise<T | undefined>;
+  write: (id: string, item: T) => Promise<void>;
+  remove: (ids: string[]) => Promise<void>;
+};
+
+/**
+ * Records kept one per file in `<APP_DATA_DIR>/<name>/<id>.json`, for those
+ * too large to rewrite with every change to a list. `id` must come from
+ * createRecordId or another file-name-safe source.
+ */
+export function createJsonFileStore<T>(name: string): JsonFileStore<T> {
+  const file = (id: string) => path.join(getDataDir(), name, `${id}.json`);
+
+  return {
+    read: (id) => readJson<T>(file(id)),
+    write: (id, item) => writeJson(file(id), item),
+    remove: async (ids) => {
+      await Promise.all(ids.map((id) => fs.rm(file(id), { force: true })));
+    },
+  };
+}
@@ -0,0 +1,45 @@
+export type DiffPart = {
+  type: "same" | "added" | "removed";
+  text: string;
+};
+
+// Words, runs of whitespace and single punctuation marks
+const splitWords = (text: string) => text.match(/\s+|[\w$]+|[^\w$\s]/g) ?? [];
+
+/**
+ * The changes from `before` to `after`, word by word, as the longest common
+ * sequence of words with what was removed and added around it. Adjacent parts
+ * of the same type are merged.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = splitWords(before);
+  const b = splitWords(after);
+  // lengths[i][j]: longest common sequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart["type"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+  let [i, j] = [0, 0];
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push("same", a[i]);
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      push("added", b[j++]);
+    } else {
+      push("removed", a[i++]);
+    }
+  }
+  return parts;
+}
@@ -11,16 +11,229 @@ export type Unicorn = {
   select_investors: string;
 };
 
-export type Result = Record<string, string | number>;
+// A value in a result row, as plain JSON so rows look the same whether they
+// come from a server action, the pipeline stream or the history. Numeric and
+// bigint values stay text to keep their precision; dates and timestamps are
+// ISO 8601 text; JSON and arrays are parsed
+export type ResultValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ResultValue[]
+  | { [key: string]: ResultValue };
 
+export type Result = Record<string, ResultValue>;
+
+// How a column's values are represented and should be read
+export type FieldKind =
+  | "integer"
+  | "bigint"
+  | "number"
+  | "boolean"
+  | "date"
+  | "timestamp"
+  | "json"
+  | "array"
+  | "interval"
+  | "text";
+
+// A result column, described from the field list Postgres sends with rows
+export type ResultField = {
+  name: string;
+  // Postgres type OID, see pg_type
+  dataTypeID: number;
+  // The type as Postgres writes it, e.g. "numeric(10,2)" or "text[]"
+  typeName: string;
+  kind: FieldKind;
+  // False only for columns read straight from a NOT NULL table column
+  nullable: boolean;
+};
+
+export type QueryResult = {
+  fields: ResultField[];
+  rows: Result[];
+  // Rows returned, after truncation
+  rowCount: number;
+  // True when the query produced more rows than the configured maximum
+  truncated: boolean;
+  // Time spent running the query in the database
+  durationMs: number;
+  // Set when one page of the result was requested
+  page?: { offset: number; limit: number; totalRows: number };
+};
+
+// One step of a query plan, read from EXPLAIN (FORMAT JSON)
+export type PlanNode = {
+  // e.g. "Seq Scan", "Hash Join" or "Sort"
+  nodeType: string;
+  // What the step works on: table, index, join condition, filter or sort key
+  details: string[];
+  startupCost: number;
+  // Estimated cost of this step and everything below it
+  totalCost: number;
+  // Rows the planner expects the step to return
+  planRows: number;
+  // Rows actually returned over all loops, and the time that took including
+  // the steps below; null unless the plan was analyzed
+  actualRows: number | null;
+  actualTimeMs: number | null;
+  // Times the step ran, e.g. once per outer row inside a nested loop; null
+  // unless the plan was analyzed
+  loops: number | null;
+  // Share of the whole plan's time (or cost, when not analyzed) spent in
+  // this step itself, from 0 to 1
+  selfShare: number;
+  children: PlanNode[];
+};
+
+export type QueryPlan = {
+  root: PlanNode;
+  // True when the query was run with EXPLAIN ANALYZE
+  analyzed: boolean;
+  planningTimeMs: number | null;
+  executionTimeMs: number | null;
+};
+
+export type ResultSort = {
+  column: string;
+  direction: "asc" | "desc";
+};
+
+export type ResultFilter = {
+  column: string;
+  // "contains" matches the value's text case-insensitively; the others
+  // compare it with the column as Postgres would
+  operator: "contains" | "eq" | "gt" | "gte" | "lt" | "lte";
+  value: string;
+};
+
+// Which slice of a result to fetch, sorted and filtered in the database
+export type ResultPageRequest = {
+  offset: number;
+  limit: number;
+  sort: ResultSort[];
+  filters: ResultFilter[];
+};
+
+export type QueryError = {
+  // SQLSTATE code for errors raised by Postgres
+  code?: string;
+  message: string;
+  // Set when the query was rejected before reaching the database
+  issues?: SqlValidationIssue[];
+};
+
+export type QueryAttempt = {
+  sql: string;
+  error?: QueryError;
+};
+
+export type RepairedQueryResult = {
+  // Every query tried, in order; only the last one can have succeeded
+  attempts: QueryAttempt[];
+  result: QueryResult | null;
+};
+
+export type SqlValidationIssue = {
+  code:
+    | "parse_error"
+    | "empty_query"
+    | "multiple_statements"
+    | "ambiguous_syntax"
+    | "statement_not_allowed"
+    | "locking_clause"
+    | "forbidden_function"
+    | "unknown_table";
+  message: string;
+  // Character offsets into the validated SQL, when the parser reports them
+  location?: { start: number; end: number };
+};
+
+export type TableReference = {
+  schema?: string;
+  name: string;
+  location?: { start: number; end: number };
+};
+
+export type SqlValidationResult = {
+  valid: boolean;
+  issues: SqlValidationIssue[];
+  // Tables read by the query, excluding CTE names
+  tables?: TableReference[];
+};
+
+// The client-safe view of a registered data source
+export type DataSourceInfo = {
+  id: string;
+  name: string;
+};
+
+// An explanation of one part of a query: `section` is the text between the
+// `start` and `end` character offsets, so repeated text is told apart
 export const explanationSchema = z.object({
   section: z.string(),
+  start: z.number().int().nonnegative(),
+  end: z.number().int().nonnegative(),
   explanation: z.string(),
 });
 export const explanationsSchema = z.array(explanationSchema);
 
 export type QueryExplanation = z.infer<typeof explanationSchema>;
 
+// How a column's values are displayed in the table, chart axes and tooltips
+export const columnFormatSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("number"),
+    decimals: z.number().int().min(0).max(10).optional(),
+  }),
+  z.object({
+    type: z.literal("currency"),
+    currency: z.string().length(3).describe("ISO 4217 code, e.g. USD").default("USD"),
+    scale: z
+      .number()
+      .positive()
+      .describe("What one stored unit is worth, e.g. 1000000 for values stored in millions")
+      .optional(),
+  }),
+  z.object({
+    type: z.literal("percent"),
+    ratio: z
+      .boolean()
+      .describe("True when 0.25 means 25%, false when values are already percentages")
+      .default(true),
+  }),
+  z.object({ type: z.literal("compact") }),
+  z.object({ type: z.literal("date") }),
+  z.object({ type: z.literal("datetime") }),
+  z.object({
+    type: z.literal("duration"),
+    unit: z.enum(["ms", "s", "min", "h", "d"]).describe("Unit of numeric values").default("s"),
+  }),
+  z.object({ type: z.literal("url") }),
+  z.object({ type: z.literal("list"), separator: z.string().default(", ") }),
+  z.object({ type: z.literal("boolean") }),
+  z.object({ type: z.literal("json") }),
+  z.object({ type: z.literal("text") }),
+]);
+
+export type ColumnFormat = z.infer<typeof columnFormatSchema>;
+
+// Formats chosen for particular columns, by column name
+export type ColumnFormats = Record<string, ColumnFormat>;
+
+export const chartTypes = [
+  "bar",
+  "line",
+  "area",
+  "pie",
+  "scatter",
+  "histogram",
+  "composed",
+] as const;
+
+export type ChartType = (typeof chartTypes)[number];
+
 // Define the schema for chart configuration
 export const configSchema = z
   .object({
@@ -30,13 +243,21 @@ export const configSchema = z
         "Describe the chart. What is it showing? What is interesting about the way the data is displayed?",
       ),
     takeaway: z.string().describe("What is the main takeaway from the chart?"),
-    type: z.enum(["bar", "line", "area", "pie"]).describe("Type of chart"),
+    type: z
+      .enum(chartTypes)
+      .describe(
+        "Type of chart. scatter plots one numeric column against another; histogram shows how the values of the numeric xKey column are distributed; composed draws some yKeys as bars and the others as lines",
+      ),
     title: z.string(),
     xKey: z.string().describe("Key for x-axis or category"),
     yKeys: z.array(z.string()).describe("Key(s) for y-axis values this is typically the quantitative column"),
     multipleLines: z.boolean().describe("For line charts only: whether the chart is comparing groups of data.").optional(),
     measurementColumn: z.string().describe("For line charts only: key for quantitative y-axis column to measure against (eg. values, counts etc.)").optional(),
     lineCategories: z.array(z.string()).describe("For line charts only: Categories used to compare different lines or data series. Each category represents a distinct line in the chart.").optional(),
+    seriesKey: z
+      .string()
+      .describe("For line charts only: the column whose values are the lineCategories")
+      .optional(),
     colors: z
       .record(
         z.string().describe("Any of the yKeys"),
@@ -44,9 +265,189 @@ export const configSchema = z
       )
       .describe("Mapping of data keys to color values for chart elements")
       .optional(),
+    stacked: z
+      .boolean()
+      .describe("For bar and area charts: stack the yKeys on top of each other")
+      .optional(),
+    horizontal: z
+      .boolean()
+      .describe("For bar charts: draw the bars horizontally, e.g. for long category names")
+      .optional(),
+    sizeKey: z
+      .string()
+      .describe("For scatter charts: numeric column setting the size of each point, making a bubble chart")
+      .optional(),
+    bins: z
+      .number()
+      .int()
+      .min(2)
+      .max(100)
+      .describe("For histograms: number of equal-width bins, 10 when left out")
+      .optional(),
+    lineKeys: z
+      .array(z.string())
+      .describe("For composed charts: the yKeys drawn as lines; the other yKeys are drawn as bars")
+      .optional(),
+    rightAxisKeys: z
+      .array(z.string())
+      .describe(
+        "yKeys measured against a second y-axis on the right, for values on a different scale or in a different unit than the others",
+      )
+      .optional(),
+    sortBy: z
+      .object({
+        key: z.string().describe("xKey or one of the yKeys"),
+        direction: z.enum(["asc", "desc"]),
+      })
+      .describe("Order of the data points; left out, rows keep the query's order")
+      .optional(),
     legend: z.boolean().describe("Whether to show legend"),
+    formats: z
+      .record(z.string().describe("A column name"), columnFormatSchema)
+      .describe(
+        "Display formats for columns that need more than their type suggests, e.g. currency for money columns or percent for ratios",
+      )
+      .optional(),
   })
   .describe("Chart configuration object");
 
 
 export type Config = z.infer<typeof configSchema>;
+
+export type ColumnSchema = {
+  name: string;
+  // Formatted Postgres type, e.g. "numeric(10,2)" or "character varying(255)"
+  type: string;
+  typeOid: number;
+  nullable: boolean;
+  default: string | null;
+  comment: string | null;
+  enumValues?: string[];
+};
+
+export type ForeignKeySchema = {
+  columns: string[];
+  references: { schema: string; table: string; columns: string[] };
+};
+
+export type TableSchema = {
+  schema: string;
+  name: string;
+  kind: "table" | "view" | "materialized view";
+  comment: string | null;
+  columns: ColumnSchema[];
+  primaryKey: string[];
+  foreignKeys: ForeignKeySchema[];
+};
+
+export type DatabaseSchema = {
+  tables: TableSchema[];
+  // Changes whenever a table, column, comment or key changes
+  fingerprint: string;
+  introspectedAt: string;
+};
+
+// What the SQL editor completes for a table
+export type EditorTable = {
+  // As a query names it: without the schema when it is on the search path
+  name: string;
+  columns: { name: string; type: string }[];
+};
+
+// What a follow-up question needs to know about an earlier question
+export type ConversationTurn = {
+  question: string;
+  sql: string;
+  columns: string[];
+  rowCount: number;
+};
+
+export type HistoryStatus = "success" | "empty" | "error";
+
+// One recorded run of a question, or of a past query run again
+export type HistoryEntry = {
+  id: string;
+  question: string;
+  sql: string;
+  sourceId: string;
+  createdAt: string;
+  status: HistoryStatus;
+  // Rows returned; null when the query never ran successfully
+  rowCount: number | null;
+  // From the question, or the re-run, to the query result
+  durationMs: number;
+  chartConfig: Config | null;
+  error?: string;
+  fields: ResultField[];
+  rows: Result[];
+  truncated: boolean;
+};
+
+// A history entry without its rows, for listing
+export type HistorySummary = Omit<HistoryEntry, "fields" | "rows">;
+
+// A named question, SQL and chart, served at /q/[id]
+export type SavedQuery = {
+  id: string;
+  name: string;
+  question: string;
+  sql: string;
+  sourceId: string;
+  chartConfig: Config | null;
+  createdAt: string;
+};
+
+export type TileWidth = 1 | 2;
+export type TileHeight = "sm" | "md" | "lg";
+
+// A pinned chart; its data is fetched again whenever the dashboard loads
+export type DashboardTile = {
+  id: string;
+  title: string;
+  question: string;
+  sql: string;
+  sourceId: string;
+  chartConfig: Config;
+  // Columns spanned in the dashboard grid
+  width: TileWidth;
+  height: TileHeight;
+  // Minutes between automatic refreshes; null refreshes on load only
+  refreshMinutes: number | null;
+};
+
+export type Dashboard = {
+  id: string;
+  name: string;
+  // In display order
+  tiles: DashboardTile[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+// A step of the streaming pipeline, named in progress and error events
+export type PipelineStage =
+  | "generating"
+  | "validating"
+  | "running"
+  | "charting"
+  | "explaining";
+
+// Events streamed, one JSON object per line, from /api/pipeline
+export type PipelineEvent =
+  | { type: "sql-delta"; delta: string }
+  | { type: "sql"; sql: string }
+  | { type: "validation"; valid: boolean; issues: SqlValidationIssue[] }
+  | { type: "execution-start"; sql: string }
+  | { type: "attempts"; attempts: QueryAttempt[] }
+  | { type: "rows"; fields: ResultField[]; rows: Result[] }
+  | { type: "result"; rowCount: number; truncated: boolean; durationMs: number }
+  | { type: "chart"; config: Config }
+  | { type: "explanation"; explanations: QueryExplanation[] }
+  | {
+      type: "error";
+      stage: PipelineStage;
+      message: string;
+      issues?: SqlValidationIssue[];
+    }
+  | { type: "recorded"; id: string }
+  | { type: "done" };
@@ -4,3 +4,18 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function readPositiveInt(value: string | undefined, fallback: number) {
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback
+}
+
+// Strips markdown fences the model sometimes adds, and trailing semicolons
+export function cleanQuery(query: string) {
+  return query
+    .trim()
+    .replace(/^```(?:sql)?\s*/i, "")
+    .replace(/\s*```$/, "")
+    .trim()
+    .replace(/;+$/, "")
+}
@@ -3,6 +3,8 @@ const nextConfig = {
   images: {
     domains: ["images.ctfassets.net"],
   },
+  // Loaded from node_modules at runtime rather than bundled into the routes
+  serverExternalPackages: ["exceljs", "@dsnp/parquetjs"],
 };
 
 module.exports = nextConfig;
@@ -0,0 +1,332 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, before, describe, it } from "node:test";
+import { escapeIdentifier } from "pg";
+import { Harness, startHarness } from "./harness";
+import { withClient } from "@/lib/db";
+import {
+  ColumnType,
+  CopyRows,
+  ImportColumn,
+  ImportOptions,
+  importCsv,
+  parseDate,
+  parseNumber,
+  parseTimestamp,
+  readCsv,
+} from "@/lib/csv-import";
+
+// Starts with a byte order mark, as spreadsheets often write
+const messyCsv = `\uFEFFCompany,Valuation ($B),Date Joined,Founded,Public,Last Round
+Stripe,"$95",1/23/2014,2010,no,2021-03-14 09:30
+Klarna,$45.6,12/12/2011,2005,No,3/1/2021 4:05 PM
+Canva,"$40",Jan 8 2018,2012,yes,2021-09-15T00:00:00
+Revolut,33,26/04/2018,2015,n/a,
+Broken,$1.2,not a date,2019,no,2021-01-01 10:00
+Short,$2
+`;
+
+describe("CSV import", () => {
+  let dir: string;
+  let file: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "csv-import-"));
+    file = path.join(dir, "unicorns.csv");
+    fs.writeFileSync(file, messyCsv);
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads currency, separators and suffixes as numbers", () => {
+    assert.equal(parseNumber("$1,250.50"), 1250.5);
+    assert.equal(parseNumber("(300)"), -300);
+    assert.equal(parseNumber("-€2.5B"), -2500000000);
+    assert.equal(parseNumber("1.234,5"), 1234.5);
+    assert.equal(parseNumber("3,5"), 3.5);
+    assert.equal(parseNumber("1.234.567"), 1234567);
+    // One dot group is a decimal point, not thousands
+    assert.equal(parseNumber("0.125"), 0.125);
+    assert.equal(parseNumber("1.234"), 1.234);
+    assert.equal(parseNumber("$1.125"), 1.125);
+    assert.equal(parseNumber("12.500"), 12.5);
+    assert.equal(parseNumber("12 500"), 12500);
+    assert.equal(parseNumber("1,2,3"), null);
+    assert.equal(parseNumber("n/a"), null);
+  });
+
+  it("reads dates and times in the common spreadsheet formats", () => {
+    assert.equal(parseDate("2017-04-07"), "2017-04-07");
+    assert.equal(parseDate("4/7/2017"), "2017-04-07");
+    assert.equal(parseDate("4/7/2017", "dmy"), "2017-07-04");
+    // A first part above 12 can only be the day
+    assert.equal(parseDate("25/12/20"), "2020-12-25");
+    assert.equal(parseDate("April 7, 2017"), "2017-04-07");
+    assert.equal(parseDate("07-Apr-17"), "2017-04-07");
+    assert.equal(parseDate("2/30/2020"), null);
+    assert.equal(parseTimestamp("3/1/2021 4:05 PM"), "2021-03-01 16:05:00");
+    assert.equal(parseTimestamp("2021-09-15T08:00:00Z"), "2021-09-15 08:00:00Z");
+    // Offsets are converted to UTC, across midnight when needed
+    assert.equal(parseTimestamp("2021-09-15T08:00:00+02:00"), "2021-09-15 06:00:00Z");
+    assert.equal(parseTimestamp("2021-09-15 01:30:15.5 +0530"), "2021-09-14 20:00:15.5Z");
+    assert.equal(parseTimestamp("12/31/2021 10:00 PM -05"), "2022-01-01 03:00:00Z");
+    assert.equal(parseTimestamp("2021-09-15"), "2021-09-15 00:00:00");
+    assert.equal(parseTimestamp("2021-09-15 25:00"), null);
+  });
+
+  it("infers column types, converts values and rejects rows that do not fit", async () => {
+    const batches: (string | null)[][][] = [];
+    const result = await readCsv(
+      {
+        file,
+        table: "unicorns",
+        mode: "insert",
+        batchSize: 2,
+        columns: { "Valuation ($B)": { name: "valuation", scale: 1000, required: true } },
+      },
+      null,
+      async (_, rows) => {
+        batches.push(rows.map((row) => row.values));
+      },
+    );
+
+    const types = (columns: ImportColumn[]) =>
+      Object.fromEntries(columns.map((column) => [column.name, column.type]));
+    assert.deepEqual(types(result.columns), {
+      company: "text",
+      // Whole numbers once scaled to millions
+      valuation: "integer",
+      date_joined: "text",
+      founded: "integer",
+      public: "boolean",
+      last_round: "timestamp",
+    } satisfies Record<string, ColumnType>);
+    assert.deepEqual(
+      batches.map((batch) => batch.length),
+      [2, 2, 1],
+    );
+    // "not a date" keeps Date Joined from being inferred as a date
+    assert.deepEqual(batches[0], [
+      ["Stripe", "95000", "1/23/2014", "2010", "false", "2021-03-14 09:30:00"],
+      ["Klarna", "45600", "12/12/2011", "2005", "false", "2021-03-01 16:05:00"],
+    ]);
+    assert.deepEqual(batches[1][1], ["Revolut", "33000", "26/04/2018", "2015", null, null]);
+    assert.equal(result.loaded, 5);
+    assert.deepEqual(result.rejected, [
+      { line: 7, record: ["Short", "$2"], error: "Expected 6 values, found 2" },
+    ]);
+  });
+
+  it("uses the types of an existing table and reports values that do not convert", async () => {
+    const loaded: (string | null)[][] = [];
+    const result = await readCsv(
+      {
+        file,
+        table: "unicorns",
+        mode: "upsert",
+        dateOrder: "dmy",
+        columns: {
+          "Valuation ($B)": { name: "valuation", scale: 1000 },
+          Founded: { skip: true },
+          Public: { skip: true },
+          "Last Round": { skip: true },
+        },
+      },
+      new Map<string, ColumnType>([
+        ["company", "text"],
+        ["valuation", "numeric"],
+        ["date_joined", "date"],
+      ]),
+      async (_, rows) => {
+        loaded.push(...rows.map((row) => row.values));
+      },
+    );
+
+    assert.deepEqual(loaded, [
+      ["Stripe", "95000", "2014-01-23"],
+      ["Klarna", "45600", "2011-12-12"],
+      ["Canva", "40000", "2018-01-08"],
+      ["Revolut", "33000", "2018-04-26"],
+    ]);
+    assert.deepEqual(
+      result.rejected.map(({ line, error }) => [line, error]),
+      [
+        [6, 'Date Joined: "not a date" is not a date'],
+        [7, "Expected 6 values, found 2"],
+      ],
+    );
+
+    await assert.rejects(
+      readCsv(
+        { file, table: "unicorns", mode: "insert" },
+        new Map([["company", "text"]]),
+        async () => {},
+      ),
+      /The table has no column "valuation_b"/,
+    );
+  });
+});
+
+// PGlite's socket server cannot take COPY FROM STDIN, so rows are inserted
+// one by one instead; everything around the COPY runs as it would
+const insertRows: CopyRows = async (client, table, names, rows) => {
+  for (const { values } of rows) {
+    await client.query(
+      `INSERT INTO ${table} (${names.map(escapeIdentifier).join(", ")})
+       VALUES (${values.map((_, index) => `$${index + 1}`).join(", ")})`,
+      values,
+    );
+  }
+};
+
+describe("CSV import into Postgres", () => {
+  let harness: Harness;
+  let dir: string;
+
+  before(async () => {
+    harness = await startHarness();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "csv-import-"));
+  });
+
+  after(async () => {
+    await harness.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const importFile = (
+    name: string,
+    csv: string,
+    options: Omit<ImportOptions, "file">,
+    copy = insertRows,
+  ) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, csv);
+    return withClient(undefined, (client) => importCsv(client, { file, ...options }, copy));
+  };
+
+  const orders = async () =>
+    (
+      await harness.db.query<{ order_id: number; customer: string; amount: string | null }>(
+        "SELECT order_id, customer, amount FROM orders ORDER BY order_id",
+      )
+    ).rows;
+
+  it("creates the table, loads the rows in batches and writes the rejects", async () => {
+    const summary = await importFile(
+      "orders.csv",
+      `Order ID,Customer,Amount,Ordered At
+1,Acme,"$1,200.50",2024-01-05 10:00
+2,Globex,300,2024-01-06 11:30
+3,Initech,n/a,2024-01-07 09:15
+4,Umbrella,12
+`,
+      { table: "orders", mode: "insert", key: ["order_id"], batchSize: 2 },
+    );
+
+    assert.equal(summary.created, true);
+    assert.equal(summary.loaded, 3);
+    assert.equal(summary.rejected, 1);
+    const { rows: columns } = await harness.db.query(
+      `SELECT column_name, data_type FROM information_schema.columns
+       WHERE table_name = 'orders' ORDER BY ordinal_position`,
+    );
+    assert.deepEqual(columns, [
+      { column_name: "order_id", data_type: "bigint" },
+      { column_name: "customer", data_type: "text" },
+      { column_name: "amount", data_type: "numeric" },
+      { column_name: "ordered_at", data_type: "timestamp without time zone" },
+    ]);
+    assert.deepEqual(await orders(), [
+      { order_id: 1, customer: "Acme", amount: "1200.5" },
+      { order_id: 2, customer: "Globex", amount: "300" },
+      { order_id: 3, customer: "Initech", amount: null },
+    ]);
+    assert.equal(summary.rejectsFile, path.join(dir, "orders.rejects.csv"));
+    assert.equal(
+      fs.readFileSync(summary.rejectsFile!, "utf8"),
+      'Order ID,Customer,Amount,Ordered At,line,error\r\n4,Umbrella,12,5,"Expected 4 values, found 3"\r\n',
+    );
+  });
+
+  it("updates rows whose key exists and adds the others", async () => {
+    const summary = await importFile(
+      "orders-update.csv",
+      `Order ID,Customer,Amount,Ordered At
+2,Globex,350,2024-01-06 11:30
+5,Hooli,80,2024-02-01 08:00
+5,Hooli,90,2024-02-01 08:00
+`,
+      { table: "orders", mode: "upsert", key: ["order_id"] },
+    );
+
+    assert.equal(summary.created, false);
+    assert.equal(summary.rejectsFile, null);
+    // The last row for a key wins
+    assert.deepEqual(await orders(), [
+      { order_id: 1, customer: "Acme", amount: "1200.5" },
+      { order_id: 2, customer: "Globex", amount: "350" },
+      { order_id: 3, customer: "Initech", amount: null },
+      { order_id: 5, customer: "Hooli", amount: "90" },
+    ]);
+  });
+
+  it("rejects the rows the table refuses and loads the rest", async () => {
+    const summary = await importFile(
+      "unicorns.csv",
+      `company,valuation,country,city,industry,select_investors
+${"Long".repeat(70)},1000,Sweden,Stockholm,Fintech,Accel
+Stripe,1000,United States,San Francisco,Fintech,Sequoia
+Northvolt,11750,Sweden,Stockholm,Other,Goldman Sachs
+`,
+      { table: "unicorns", mode: "insert" },
+    );
+
+    assert.equal(summary.loaded, 1);
+    assert.equal(summary.rejected, 2);
+    const rejects = fs.readFileSync(summary.rejectsFile!, "utf8").trim().split("\r\n");
+    assert.match(rejects[1], /^Long.*,2,value too long for type character varying\(255\)$/);
+    assert.match(rejects[2], /^Stripe,.*,3,"duplicate key value violates unique constraint/);
+    const { rows } = await harness.db.query(
+      "SELECT COUNT(*)::int AS count FROM unicorns WHERE company = 'Northvolt'",
+    );
+    assert.deepEqual(rows, [{ count: 1 }]);
+  });
+
+  it("replaces the rows, or rolls back everything when loading fails", async () => {
+    const replacement = `Order ID,Customer,Amount,Ordered At
+7,Soylent,10,2024-03-01 12:00
+8,Tyrell,20,2024-03-02 12:00
+`;
+    let batches = 0;
+    // The second batch fails for a reason other than its values
+    const failing: CopyRows = async (client, ...args) => {
+      if (++batches === 2) await client.query("SELECT * FROM missing_table");
+      await insertRows(client, ...args);
+    };
+    await assert.rejects(
+      importFile(
+        "orders-replace.csv",
+        replacement,
+        { table: "orders", mode: "replace", batchSize: 1 },
+        failing,
+      ),
+      /Loading the rows from line 3 to 3 failed: relation "missing_table" does not exist/,
+    );
+    // The TRUNCATE and the first batch were undone
+    assert.equal((await orders()).length, 4);
+
+    const summary = await importFile("orders-replace.csv", replacement, {
+      table: "orders",
+      mode: "replace",
+    });
+    assert.equal(summary.loaded, 2);
+    assert.deepEqual(
+      (await orders()).map((order) => order.order_id),
+      [7, 8],
+    );
+  });
+});
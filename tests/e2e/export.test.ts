@@ -0,0 +1,160 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import ExcelJS from "exceljs";
+import { ParquetReader } from "@dsnp/parquetjs";
+import { Harness, startHarness } from "./harness";
+import { POST } from "@/app/api/export/route";
+import { streamWithClient } from "@/lib/db";
+import { getQueryLimits, streamReadOnlyQuery } from "@/lib/query-runner";
+
+const exportQuery = (sql: string, format: string, headers?: Record<string, string>) =>
+  POST(
+    new Request("http://localhost/api/export", {
+      method: "POST",
+      headers,
+      body: new URLSearchParams({ sql, format, name: "Fintech unicorns!" }),
+    }),
+  );
+
+const fintech =
+  "SELECT company, valuation, date_joined, select_investors FROM unicorns WHERE industry = 'Fintech' ORDER BY valuation DESC";
+
+describe("result export", () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it("writes quoted CSV with a header row", async () => {
+    const response = await exportQuery(fintech, "csv");
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("Content-Type"), "text/csv; charset=utf-8");
+    assert.equal(
+      response.headers.get("Content-Disposition"),
+      'attachment; filename="fintech-unicorns.csv"',
+    );
+    const lines = (await response.text()).split("\r\n");
+    assert.equal(lines[0], "company,valuation,date_joined,select_investors");
+    assert.match(lines[1], /^Stripe,95000\.00,2014-01-23,"Khosla Ventures, LowercaseCapital, capitalG"$/);
+    assert.equal(lines.length, 7);
+  });
+
+  it("writes JSON and NDJSON with numbers kept as numbers", async () => {
+    const json = await (await exportQuery(fintech, "json")).json();
+    assert.equal(json.length, 5);
+    assert.equal(json[0].company, "Stripe");
+    assert.equal(json[0].valuation, 95000);
+    assert.equal(json[0].date_joined, "2014-01-23");
+
+    const ndjson = await (await exportQuery(fintech, "ndjson")).text();
+    const lines = ndjson.trim().split("\n").map((line) => JSON.parse(line));
+    assert.deepEqual(lines.map((line) => line.company), [
+      "Stripe",
+      "Klarna",
+      "Checkout.com",
+      "Revolut",
+      "Chime",
+    ]);
+  });
+
+  it("writes typed Excel and Parquet files", async () => {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await (await exportQuery(fintech, "xlsx")).arrayBuffer());
+    const sheet = workbook.getWorksheet("Results")!;
+    // Row values are 1-based
+    assert.deepEqual((sheet.getRow(1).values as unknown[]).slice(1), [
+      "company",
+      "valuation",
+      "date_joined",
+      "select_investors",
+    ]);
+    assert.equal(sheet.getRow(2).getCell(2).value, 95000);
+    assert.ok(sheet.getRow(2).getCell(3).value instanceof Date);
+    assert.equal(sheet.rowCount, 6);
+
+    const buffer = Buffer.from(await (await exportQuery(fintech, "parquet")).arrayBuffer());
+    const reader = await ParquetReader.openBuffer(buffer);
+    const schema = reader.getSchema().fields;
+    assert.equal(schema.valuation.primitiveType, "DOUBLE");
+    assert.equal(schema.company.originalType, "UTF8");
+    const cursor = reader.getCursor();
+    const first = (await cursor.next()) as Record<string, unknown>;
+    assert.equal(first.valuation, 95000);
+    assert.equal((first.date_joined as Date).toISOString(), "2014-01-23T00:00:00.000Z");
+    assert.equal(first.select_investors, "Khosla Ventures, LowercaseCapital, capitalG");
+    assert.equal(Number(reader.getRowCount()), 5);
+    await reader.close();
+  });
+
+  it("writes JSON columns as JSON text to Excel and as JSON values to Parquet", async () => {
+    const sql =
+      "SELECT company, json_build_object('city', city) AS place FROM unicorns WHERE company = 'Stripe'";
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await (await exportQuery(sql, "xlsx")).arrayBuffer());
+    assert.equal(
+      workbook.getWorksheet("Results")!.getRow(2).getCell(2).value,
+      '{"city":"San Francisco"}',
+    );
+
+    const buffer = Buffer.from(await (await exportQuery(sql, "parquet")).arrayBuffer());
+    const reader = await ParquetReader.openBuffer(buffer);
+    assert.equal(reader.getSchema().fields.place.originalType, "JSON");
+    const first = (await reader.getCursor().next()) as Record<string, unknown>;
+    assert.deepEqual(first.place, { city: "San Francisco" });
+    await reader.close();
+  });
+
+  it("exports every row, beyond the on-screen limit", async () => {
+    process.env.QUERY_MAX_ROWS = "2";
+    try {
+      const csv = await (await exportQuery("SELECT company FROM unicorns", "csv")).text();
+      assert.equal(csv.trim().split("\r\n").length, 13);
+    } finally {
+      delete process.env.QUERY_MAX_ROWS;
+    }
+  });
+
+  it("writes the header for an empty result", async () => {
+    const csv = await (
+      await exportQuery("SELECT company FROM unicorns WHERE country = 'Atlantis'", "csv")
+    ).text();
+    assert.equal(csv, "company\r\n");
+  });
+
+  it("rejects unsafe queries and unknown formats", async () => {
+    const deleted = await exportQuery("DELETE FROM unicorns", "csv");
+    assert.equal(deleted.status, 400);
+    assert.equal((await deleted.json()).issues[0].code, "statement_not_allowed");
+
+    assert.equal((await exportQuery(fintech, "pdf")).status, 400);
+    assert.equal((await exportQuery("SELECT nope FROM unicorns", "csv")).status, 400);
+  });
+
+  it("refuses exports requested by other sites", async () => {
+    const response = await exportQuery(fintech, "csv", { "Sec-Fetch-Site": "cross-site" });
+    assert.equal(response.status, 403);
+  });
+
+  it("streams SQL that slips past the validator as a single statement", async () => {
+    // Postgres nests block comments and the SQL parser does not: the parser
+    // sees one SELECT, Postgres a COMMIT and a DELETE between two SELECTs
+    const splitQuery =
+      "SELECT 1 /* /* */ , ' */ ) q; COMMIT; DELETE FROM unicorns; SELECT * FROM (SELECT 1 /* ' -- */";
+    const batches = streamWithClient(undefined, (client) =>
+      streamReadOnlyQuery(client, splitQuery, getQueryLimits()),
+    );
+    await assert.rejects(
+      batches.next(),
+      /cannot insert multiple commands into a prepared statement/,
+    );
+    const { rows } = await harness.db.query("SELECT COUNT(*)::int AS count FROM unicorns");
+    assert.deepEqual(rows, [{ count: 12 }]);
+  });
+});
@@ -0,0 +1,55 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+import { closePools } from "@/lib/db";
+import { invalidateSchemaCache } from "@/lib/schema";
+
+export type Harness = {
+  db: PGlite;
+  stop: () => Promise<void>;
+};
+
+/**
+ * Loads the fixture dataset into an in-process PGlite database and serves it
+ * over the Postgres wire protocol, so the actions talk to it through the real
+ * `pg` pool. Every model stage is pointed at the scripted provider, and app
+ * data such as the query history goes to a temporary directory.
+ *
+ * Call this before the first action runs: data sources are read from the
+ * environment once per process.
+ */
+export async function startHarness(fixture = "unicorns.sql"): Promise<Harness> {
+  const db = await PGlite.create();
+  await db.exec(fs.readFileSync(path.join(__dirname, "..", "fixtures", fixture), "utf8"));
+
+  // PGlite is single-connection; one pooled client keeps transactions intact
+  const server = new PGLiteSocketServer({ db, host: "127.0.0.1", port: 0 });
+  await server.start();
+
+  process.env.DATA_SOURCES = JSON.stringify([
+    {
+      id: "fixture",
+      name: "Fixture",
+      connectionString: `postgres://postgres@${server.getServerConn()}/postgres`,
+      ssl: false,
+      schemas: ["public"],
+    },
+  ]);
+  process.env.POSTGRES_POOL_MAX = "1";
+  process.env.LLM_MODEL = "scripted:default";
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "nlp-data-"));
+  process.env.APP_DATA_DIR = dataDir;
+
+  return {
+    db,
+    stop: async () => {
+      invalidateSchemaCache();
+      await closePools();
+      await server.stop();
+      await db.close();
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    },
+  };
+}
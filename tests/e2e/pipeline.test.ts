@@ -0,0 +1,852 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Harness, startHarness } from "./harness";
+import { getScriptedCalls, setScriptedResponses } from "@/lib/scripted-model";
+import {
+  explainQuery,
+  explainQueryPlan,
+  generateChartConfig,
+  generateQuery,
+  getEditorSchema,
+  getQueryHistoryEntry,
+  rerunHistoryEntry,
+  pinChartToDashboard,
+  runDashboardTile,
+  runGenerateSQLQuery,
+  runQueryWithRepair,
+  saveDashboardLayout,
+  saveNamedQuery,
+  searchQueryHistory,
+  updateSavedQueryChart,
+  validateSQLQuery,
+} from "@/app/actions";
+import { validateChartConfig } from "@/lib/chart-config";
+import { applyEditedQuery, createTurn } from "@/lib/conversation";
+import { completeSql } from "@/lib/sql-completion";
+import { runPipeline } from "@/lib/pipeline";
+import { isMisestimated } from "@/lib/query-plan";
+import { explainReadOnlyQuery, runReadOnlyQuery } from "@/lib/query-runner";
+import { withClient } from "@/lib/db";
+import { getSavedQuery } from "@/lib/saved-queries";
+import { getHistoryEntry, recordRun, searchHistory } from "@/lib/history";
+import { PipelineEvent, PlanNode } from "@/lib/types";
+
+// Postgres nests block comments and the SQL parser does not: the parser sees
+// one SELECT, Postgres a COMMIT and a DELETE between two SELECTs
+const splitQuery =
+  "SELECT 1 /* /* */ , ' */ ) q; COMMIT; DELETE FROM unicorns; SELECT * FROM (SELECT 1 /* ' -- */";
+
+const countByCountry =
+  "SELECT country, COUNT(*)::int AS count FROM unicorns GROUP BY country ORDER BY count DESC, country";
+
+describe("question → SQL → rows → chart", () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  beforeEach(() => {
+    setScriptedResponses([]);
+  });
+
+  it("answers a question end to end", async () => {
+    setScriptedResponses([
+      { match: "Generate a SQL query for", text: "```sql\n" + countByCountry + ";\n```" },
+      {
+        match: "generate the chart config",
+        text: JSON.stringify({
+          description: "Unicorns per country",
+          takeaway: "The United States has the most unicorns",
+          type: "bar",
+          title: "Unicorns by country",
+          xKey: "country",
+          yKeys: ["count"],
+          legend: false,
+        }),
+      },
+    ]);
+
+    const question = "How many unicorns are there in each country?";
+    const sql = await generateQuery(question);
+    const result = await runGenerateSQLQuery(sql);
+
+    assert.equal(result.truncated, false);
+    assert.deepEqual(result.rows, [
+      { country: "United States", count: 6 },
+      { country: "China", count: 2 },
+      { country: "United Kingdom", count: 2 },
+      { country: "Australia", count: 1 },
+      { country: "Sweden", count: 1 },
+    ]);
+
+    const { config } = await generateChartConfig(result.rows, question);
+    assert.equal(config.type, "bar");
+    assert.equal(config.xKey, "country");
+    assert.deepEqual(config.yKeys, ["count"]);
+    assert.deepEqual(config.colors, { count: "hsl(var(--chart-1))" });
+  });
+
+  it("builds the prompt from the introspected schema", async () => {
+    setScriptedResponses([{ text: countByCountry }]);
+
+    await generateQuery("Unicorns per country");
+
+    const [call] = getScriptedCalls();
+    assert.match(call.prompt, /TABLE unicorns \(/);
+    assert.match(call.prompt, /valuation numeric\(10,2\) NOT NULL, -- Valuation in millions of USD/);
+    assert.match(call.prompt, /PRIMARY KEY \(id\)/);
+  });
+
+  it("reports queries that match no rows", async () => {
+    await assert.rejects(
+      runGenerateSQLQuery("SELECT company FROM unicorns WHERE country = 'Atlantis'"),
+      /found no matching records/,
+    );
+  });
+
+  it("blocks forbidden SQL before it reaches the database", async () => {
+    const validation = await validateSQLQuery("DELETE FROM unicorns");
+    assert.equal(validation.valid, false);
+    assert.equal(validation.issues[0].code, "statement_not_allowed");
+
+    for (const sql of [
+      "SELECT query_to_xml('DELETE FROM unicorns RETURNING *', true, false, '')",
+      "SELECT table_to_xml_and_xmlschema('unicorns', true, false, '')",
+      "SELECT pg_advisory_lock(1)",
+      "SELECT lo_get(16384)",
+    ]) {
+      const { issues } = await validateSQLQuery(sql);
+      assert.deepEqual(
+        issues.map((issue) => issue.code),
+        ["forbidden_function"],
+        sql,
+      );
+    }
+
+    // Text Postgres would split into several statements where the SQL parser
+    // sees one
+    for (const [sql, code] of [
+      [splitQuery, "ambiguous_syntax"],
+      ["SELECT 1 /* a /* b */ c */", "ambiguous_syntax"],
+      ["SELECT E'\\''; DELETE FROM unicorns; --'", "multiple_statements"],
+      ["SELECT 1; DELETE FROM unicorns", "multiple_statements"],
+    ]) {
+      const { issues } = await validateSQLQuery(sql);
+      assert.deepEqual(
+        issues.map((issue) => issue.code),
+        [code],
+        sql,
+      );
+    }
+    // Semicolons inside strings, and one at the end, are fine
+    for (const sql of [`SELECT 'a;b' AS "c;d"`, "SELECT 1;"]) {
+      assert.equal((await validateSQLQuery(sql)).valid, true, sql);
+    }
+
+    await assert.rejects(runGenerateSQLQuery("DELETE FROM unicorns"), /failed safety checks/);
+    const { rows } = await harness.db.query("SELECT COUNT(*)::int AS count FROM unicorns");
+    assert.deepEqual(rows, [{ count: 12 }]);
+  });
+
+  it("rejects queries on tables that do not exist", async () => {
+    const validation = await validateSQLQuery("SELECT * FROM dragons");
+    assert.equal(validation.valid, false);
+    assert.equal(validation.issues[0].code, "unknown_table");
+
+    await assert.rejects(runGenerateSQLQuery("SELECT * FROM dragons"), /dragons/);
+  });
+
+  it("repairs a query that Postgres rejects", async () => {
+    setScriptedResponses([
+      {
+        match: "Failing SQL query",
+        text: "SELECT company FROM unicorns WHERE city = 'London' ORDER BY company",
+      },
+    ]);
+
+    const { attempts, result } = await runQueryWithRepair(
+      "Which unicorns are based in London?",
+      "SELECT company FROM unicorns WHERE town = 'London'",
+    );
+
+    assert.equal(attempts.length, 2);
+    assert.equal(attempts[0].error?.code, "42703");
+    assert.equal(attempts[1].error, undefined);
+    assert.deepEqual(result?.rows, [{ company: "Checkout.com" }, { company: "Revolut" }]);
+    assert.match(getScriptedCalls()[0].prompt, /column "town" does not exist/);
+  });
+
+  it("truncates results above the row limit", async () => {
+    process.env.QUERY_MAX_ROWS = "5";
+    try {
+      const result = await runGenerateSQLQuery(
+        "SELECT company FROM unicorns ORDER BY valuation DESC, company",
+      );
+      assert.equal(result.truncated, true);
+      assert.equal(result.rows.length, 5);
+      assert.deepEqual(result.rows[0], { company: "ByteDance" });
+    } finally {
+      delete process.env.QUERY_MAX_ROWS;
+    }
+  });
+
+  it("describes result columns with their Postgres types", async () => {
+    const result = await runGenerateSQLQuery(
+      `SELECT company, valuation, date_joined, valuation > 50000 AS large,
+              string_to_array(select_investors, ', ') AS investors,
+              json_build_object('city', city) AS location,
+              count(*) OVER () AS total
+         FROM unicorns WHERE company = 'Stripe'`,
+    );
+
+    assert.deepEqual(
+      result.fields.map(({ name, typeName, kind, nullable }) => [name, typeName, kind, nullable]),
+      [
+        ["company", "character varying(255)", "text", false],
+        ["valuation", "numeric(10,2)", "number", false],
+        ["date_joined", "date", "date", true],
+        ["large", "boolean", "boolean", true],
+        ["investors", "text[]", "array", true],
+        ["location", "json", "json", true],
+        ["total", "bigint", "bigint", true],
+      ],
+    );
+    // Plain JSON values: numeric and bigint as exact text, dates as ISO text
+    assert.deepEqual(result.rows, [
+      {
+        company: "Stripe",
+        valuation: "95000.00",
+        date_joined: "2014-01-23",
+        large: true,
+        investors: ["Khosla Ventures", "LowercaseCapital", "capitalG"],
+        location: { city: "San Francisco" },
+        total: "1",
+      },
+    ]);
+    assert.equal(result.rowCount, 1);
+    assert.equal(result.truncated, false);
+    assert.ok(result.durationMs >= 0);
+  });
+
+  it("pages, sorts and filters results in the database", async () => {
+    process.env.QUERY_MAX_ROWS = "3";
+    try {
+      const query = "SELECT company, valuation, city FROM unicorns";
+      const page = await runGenerateSQLQuery(query, undefined, {
+        offset: 2,
+        limit: 10,
+        sort: [
+          { column: "valuation", direction: "desc" },
+          { column: "company", direction: "asc" },
+        ],
+        filters: [
+          { column: "city", operator: "contains", value: "san%" },
+          { column: "valuation", operator: "gte", value: "30000" },
+        ],
+      });
+      // The limit is capped at the row limit, and % matches literally
+      assert.deepEqual(page.page, { offset: 2, limit: 3, totalRows: 0 });
+      assert.deepEqual(page.rows, []);
+
+      const sanFrancisco = await runGenerateSQLQuery(query, undefined, {
+        offset: 1,
+        limit: 2,
+        sort: [{ column: "valuation", direction: "desc" }],
+        filters: [
+          { column: "city", operator: "contains", value: "SAN FRAN" },
+          { column: "valuation", operator: "gte", value: "30000" },
+        ],
+      });
+      assert.deepEqual(
+        sanFrancisco.rows.map((row) => row.company),
+        ["Instacart", "Databricks"],
+      );
+      assert.deepEqual(sanFrancisco.page, { offset: 1, limit: 2, totalRows: 3 });
+    } finally {
+      delete process.env.QUERY_MAX_ROWS;
+    }
+
+    await assert.rejects(
+      runGenerateSQLQuery("SELECT company FROM unicorns", undefined, {
+        offset: 0,
+        limit: 10,
+        sort: [{ column: "nope", direction: "asc" }],
+        filters: [],
+      }),
+      /nope/,
+    );
+
+    // Without filters, the count runs with no parameters; it is still a
+    // single statement
+    await assert.rejects(
+      withClient(undefined, (client) =>
+        runReadOnlyQuery(client, splitQuery, undefined, undefined, {
+          offset: 0,
+          limit: 10,
+          sort: [],
+          filters: [],
+        }),
+      ),
+      /cannot insert multiple commands into a prepared statement/,
+    );
+    const { rows } = await harness.db.query("SELECT COUNT(*)::int AS count FROM unicorns");
+    assert.deepEqual(rows, [{ count: 12 }]);
+  });
+
+  it("accepts composed, dual-axis and histogram chart configs", async () => {
+    const rows = [
+      { year: 2018, count: 4, total_valuation: "244000.00" },
+      { year: 2019, count: 3, total_valuation: "103000.00" },
+    ];
+    setScriptedResponses([
+      {
+        match: "generate the chart config",
+        text: JSON.stringify({
+          description: "Unicorns and their valuation per year",
+          takeaway: "2018 produced the most unicorns",
+          type: "composed",
+          title: "Unicorns by year",
+          xKey: "year",
+          yKeys: ["count", "total_valuation"],
+          lineKeys: ["total_valuation"],
+          rightAxisKeys: ["total_valuation"],
+          legend: true,
+        }),
+      },
+    ]);
+
+    const { config } = await generateChartConfig(rows, "Count and total valuation by year");
+    assert.equal(config.type, "composed");
+    assert.deepEqual(config.lineKeys, ["total_valuation"]);
+    assert.deepEqual(config.rightAxisKeys, ["total_valuation"]);
+
+    setScriptedResponses([
+      {
+        match: "generate the chart config",
+        text: JSON.stringify({
+          description: "Distribution of valuations",
+          takeaway: "Most unicorns are valued under $50B",
+          type: "histogram",
+          title: "Valuations",
+          xKey: "valuation",
+          yKeys: [],
+          bins: 500,
+          legend: false,
+        }),
+      },
+    ]);
+    // Out-of-range options fail validation like any other malformed config
+    await assert.rejects(
+      generateChartConfig([{ valuation: "95000.00" }], "Valuation distribution"),
+      /Failed to generate chart suggestion/,
+    );
+  });
+
+  it("falls back to a rule-based chart", async () => {
+    setScriptedResponses([
+      {
+        match: "generate the chart config",
+        text: JSON.stringify({
+          description: "Unicorns per country",
+          takeaway: "The United States leads",
+          type: "bar",
+          title: "Unicorns by country",
+          xKey: "country",
+          yKeys: ["total"],
+          legend: false,
+        }),
+      },
+    ]);
+    const byCountry = await runGenerateSQLQuery(countByCountry);
+    // The model's config names a column the result lacks
+    const { config: shares } = await generateChartConfig(
+      byCountry.rows,
+      "Unicorns per country",
+      byCountry.fields,
+    );
+    assert.equal(shares.type, "pie");
+    assert.equal(shares.xKey, "country");
+    assert.deepEqual(shares.yKeys, ["count"]);
+    assert.equal(shares.takeaway, "United States has the highest count.");
+
+    // No scripted answer, so the model call fails
+    setScriptedResponses([]);
+    const byYear = await runGenerateSQLQuery(
+      "SELECT EXTRACT(year FROM date_joined)::int AS year, country, COUNT(*)::int AS count FROM unicorns GROUP BY 1, 2 ORDER BY 1, 2",
+    );
+    const { config: lines } = await generateChartConfig(byYear.rows, "Unicorns per year", byYear.fields);
+    assert.equal(lines.type, "line");
+    assert.equal(lines.xKey, "year");
+    assert.equal(lines.seriesKey, "country");
+    assert.deepEqual(lines.lineCategories, [
+      "Sweden",
+      "United States",
+      "China",
+      "Australia",
+      "United Kingdom",
+    ]);
+
+    process.env.LLM_CHART_MODEL = "rules";
+    try {
+      const valuations = await runGenerateSQLQuery("SELECT valuation FROM unicorns");
+      const { config: histogram } = await generateChartConfig(
+        valuations.rows,
+        "Valuations",
+        valuations.fields,
+      );
+      assert.equal(histogram.type, "histogram");
+      assert.equal(histogram.xKey, "valuation");
+      assert.equal(getScriptedCalls().length, 0);
+
+      const companies = await runGenerateSQLQuery("SELECT company FROM unicorns");
+      await assert.rejects(
+        generateChartConfig(companies.rows, "Companies", companies.fields),
+        /Failed to generate chart suggestion/,
+      );
+    } finally {
+      delete process.env.LLM_CHART_MODEL;
+    }
+  });
+
+  it("explains a query clause by clause", async () => {
+    setScriptedResponses([
+      {
+        match: "Explain the SQL query",
+        text: JSON.stringify({
+          explanations: [
+            { part: 1, explanation: "Shows each country." },
+            { part: 2, explanation: "Counts the unicorns." },
+            { part: 3, explanation: "" },
+            { part: 4, explanation: "Makes one row per country." },
+          ],
+        }),
+      },
+    ]);
+
+    const { explanations } = await explainQuery("Unicorns per country", countByCountry);
+    // "country" appears three times; each explanation keeps its own offsets
+    assert.deepEqual(explanations, [
+      { section: "country", start: 7, end: 14, explanation: "Shows each country." },
+      { section: "COUNT(*)::int AS count", start: 16, end: 38, explanation: "Counts the unicorns." },
+      { section: "country", start: 62, end: 69, explanation: "Makes one row per country." },
+    ]);
+    const [call] = getScriptedCalls();
+    assert.match(call.prompt, /1\. \[column\] country\n2\. \[column\] COUNT\(\*\)::int AS count\n3\. \[table\] unicorns\n4\. \[group by\] country\n5\. \[order by\] count DESC, country$/);
+
+    setScriptedResponses([
+      { match: "Explain the SQL query", text: JSON.stringify({ explanations: [] }) },
+    ]);
+    await explainQuery(
+      "Most valuable unicorns per country",
+      "WITH by_country AS (SELECT country, SUM(valuation) AS total FROM unicorns GROUP BY country) " +
+        "SELECT u.company, RANK() OVER (PARTITION BY u.country ORDER BY u.valuation DESC) AS rank " +
+        "FROM unicorns u JOIN by_country b ON b.country = u.country " +
+        "WHERE u.valuation > 1000 AND b.total > 5000 ORDER BY rank LIMIT 10",
+    );
+    const parts = getScriptedCalls()[0].prompt.split("Query parts:\n")[1];
+    assert.deepEqual(parts.split("\n"), [
+      "1. [cte] by_country",
+      "2. [column] country",
+      "3. [column] SUM(valuation) AS total",
+      "4. [table] unicorns",
+      "5. [group by] country",
+      "6. [column] u.company",
+      "7. [window function] RANK() OVER (PARTITION BY u.country ORDER BY u.valuation DESC) AS rank",
+      "8. [table] unicorns",
+      "9. [join] JOIN by_country b ON b.country = u.country",
+      "10. [filter] u.valuation > 1000",
+      "11. [filter] b.total > 5000",
+      "12. [order by] rank",
+      "13. [limit] 10",
+    ]);
+  });
+
+  it("shows the query plan, with actual rows when analyzed", async () => {
+    const steps = (node: PlanNode): PlanNode[] => [node, ...node.children.flatMap(steps)];
+
+    const estimated = await explainQueryPlan(countByCountry);
+    assert.equal(estimated.analyzed, false);
+    assert.equal(estimated.executionTimeMs, null);
+    // The plan is for the query as it runs, capped at the row limit
+    assert.deepEqual(
+      steps(estimated.root).map(({ nodeType }) => nodeType),
+      ["Limit", "Sort", "HashAggregate", "Seq Scan"],
+    );
+    const scan = steps(estimated.root)[3];
+    assert.deepEqual(scan.details, ["on unicorns"]);
+    assert.equal(scan.actualRows, null);
+    const shares = steps(estimated.root).reduce((sum, { selfShare }) => sum + selfShare, 0);
+    assert.ok(Math.abs(shares - 1) < 1e-9);
+
+    const analyzed = await explainQueryPlan(countByCountry, undefined, true);
+    assert.equal(analyzed.analyzed, true);
+    assert.equal(analyzed.root.actualRows, 5);
+    assert.equal(steps(analyzed.root)[3].actualRows, 12);
+    assert.equal(typeof analyzed.executionTimeMs, "number");
+
+    // The subquery runs once per company, and its estimate is for one run
+    const nested = await explainQueryPlan(
+      "SELECT company, (SELECT COUNT(*) FROM unicorns peers WHERE peers.country = unicorns.country) AS peers FROM unicorns",
+      undefined,
+      true,
+    );
+    const subquery = steps(nested.root).find(({ nodeType }) => nodeType === "Aggregate")!;
+    assert.equal(subquery.loops, 12);
+    assert.equal(subquery.planRows, 1);
+    assert.equal(subquery.actualRows, 12);
+    assert.equal(isMisestimated(subquery), false);
+    assert.equal(isMisestimated({ ...subquery, actualRows: 240 }), true);
+
+    await assert.rejects(explainQueryPlan("DELETE FROM unicorns"), /failed safety checks/);
+    // Even SQL that slips past the validator runs as a single statement
+    await assert.rejects(
+      withClient(undefined, (client) => explainReadOnlyQuery(client, splitQuery)),
+      /cannot insert multiple commands into a prepared statement/,
+    );
+    const { rows } = await harness.db.query("SELECT COUNT(*)::int AS count FROM unicorns");
+    assert.deepEqual(rows, [{ count: 12 }]);
+  });
+
+  it("completes, checks and runs queries edited by hand", async () => {
+    const tables = await getEditorSchema();
+    assert.deepEqual(tables.map((table) => table.name), ["unicorns"]);
+    assert.deepEqual(tables[0].columns.slice(0, 3), [
+      { name: "id", type: "integer" },
+      { name: "company", type: "character varying(255)" },
+      { name: "valuation", type: "numeric(10,2)" },
+    ]);
+
+    const labels = (sql: string, cursor = sql.length) =>
+      completeSql(sql, cursor, tables).items.map((item) => item.label);
+    assert.deepEqual(labels("SELECT * FROM uni"), ["unicorns"]);
+    assert.deepEqual(labels("SELECT u.co FROM unicorns u", 11), ["company", "country"]);
+    assert.deepEqual(labels("SELECT cit FROM unicorns", 10), ["city"]);
+    // An alias the query does not define has nothing to complete
+    assert.deepEqual(completeSql("SELECT u.co", 11, tables), { from: 9, to: 11, items: [] });
+
+    const blocked = await validateSQLQuery("SELECT * FROM unicorns JOIN pg_shadow ON true");
+    assert.deepEqual(blocked.issues.map((issue) => issue.location), [{ start: 28, end: 37 }]);
+
+    const generated = { ...createTurn("Unicorns per country"), activeQuery: countByCountry };
+    const edited = countByCountry.replace("AS count", "AS count, SUM(valuation)::int AS total");
+    const turn = applyEditedQuery(generated, edited, await runGenerateSQLQuery(edited));
+    assert.equal(turn.activeQuery, edited);
+    assert.equal(turn.generatedQuery, countByCountry);
+    assert.deepEqual(turn.results[0], { country: "United States", count: 6, total: 328500 });
+    // Without a chart to keep, one is recommended for the new columns
+    assert.equal(turn.chartConfig?.type, "bar");
+
+    // Running the generated query again restores it
+    const restored = applyEditedQuery(turn, countByCountry, await runGenerateSQLQuery(countByCountry));
+    assert.equal(restored.generatedQuery, null);
+  });
+
+  it("streams pipeline progress as events", async () => {
+    setScriptedResponses([
+      { match: "Generate a SQL query for", text: "```sql\n" + countByCountry + ";\n```" },
+      {
+        match: "Explain the SQL query",
+        text: JSON.stringify({ explanations: [{ part: 1, explanation: "Shows each country." }] }),
+      },
+      {
+        match: "generate the chart config",
+        text: JSON.stringify({
+          description: "Unicorns per country",
+          takeaway: "The United States has the most unicorns",
+          type: "bar",
+          title: "Unicorns by country",
+          xKey: "country",
+          yKeys: ["count"],
+          legend: false,
+        }),
+      },
+    ]);
+
+    const events: PipelineEvent[] = [];
+    for await (const event of runPipeline("How many unicorns are there in each country?")) {
+      events.push(event);
+    }
+
+    const types = events.map((event) => event.type);
+    assert.ok(types.filter((type) => type === "sql-delta").length > 1);
+    assert.deepEqual(
+      types.filter((type) => type !== "sql-delta").slice(0, 6),
+      ["sql", "validation", "execution-start", "attempts", "rows", "result"],
+    );
+    assert.deepEqual(types.slice(-4, -2).sort(), ["chart", "explanation"]);
+    assert.deepEqual(types.slice(-2), ["recorded", "done"]);
+
+    const deltas = events.flatMap((event) => (event.type === "sql-delta" ? [event.delta] : []));
+    assert.equal(deltas.join(""), "```sql\n" + countByCountry + ";\n```");
+    assert.deepEqual(events.find((event) => event.type === "sql"), {
+      type: "sql",
+      sql: countByCountry,
+    });
+    const rows = events.find((event) => event.type === "rows");
+    assert.ok(rows?.type === "rows");
+    assert.deepEqual(
+      rows.fields.map(({ name, kind }) => ({ name, kind })),
+      [
+        { name: "country", kind: "text" },
+        { name: "count", kind: "integer" },
+      ],
+    );
+    assert.deepEqual(rows, {
+      type: "rows",
+      fields: rows.fields,
+      rows: [
+        { country: "United States", count: 6 },
+        { country: "China", count: 2 },
+        { country: "United Kingdom", count: 2 },
+        { country: "Australia", count: 1 },
+        { country: "Sweden", count: 1 },
+      ],
+    });
+  });
+
+  it("ends the stream with an error when the query cannot run", async () => {
+    // The model keeps writing the same forbidden statement, repairs included
+    setScriptedResponses([{ text: "DELETE FROM unicorns" }]);
+
+    const events: PipelineEvent[] = [];
+    for await (const event of runPipeline("Remove every unicorn")) {
+      events.push(event);
+    }
+
+    const validation = events.find((event) => event.type === "validation");
+    assert.equal(validation?.type === "validation" && validation.valid, false);
+    const error = events.find((event) => event.type === "error");
+    assert.equal(error?.type === "error" && error.stage, "validating");
+    assert.equal(error?.type === "error" && error.issues?.[0].code, "statement_not_allowed");
+    assert.equal(events[events.length - 1].type, "done");
+    assert.ok(!events.some((event) => event.type === "rows"));
+  });
+
+  it("gives follow-up questions the earlier turns", async () => {
+    setScriptedResponses([{ text: "SELECT company FROM unicorns WHERE industry = 'Fintech'" }]);
+
+    await generateQuery("now only fintech", undefined, [
+      {
+        question: "Which unicorns are there?",
+        sql: "SELECT company, industry FROM unicorns",
+        columns: ["company", "industry"],
+        rowCount: 12,
+      },
+    ]);
+
+    const [call] = getScriptedCalls();
+    assert.match(call.prompt, /Question: Which unicorns are there\?\nSQL: SELECT company, industry FROM unicorns/);
+    assert.match(call.prompt, /Result: 12 rows with columns company, industry/);
+    assert.match(call.prompt, /Generate a SQL query for: now only fintech\. This may be a follow-up/);
+  });
+
+  it("records runs in the history and re-runs them without the model", async () => {
+    setScriptedResponses([
+      { match: "Generate a SQL query for", text: "SELECT company FROM unicorns WHERE city = 'Stockholm'" },
+      {
+        match: "Explain the SQL query",
+        text: JSON.stringify({ explanations: [{ part: 3, explanation: "Finds unicorns in Stockholm." }] }),
+      },
+      {
+        match: "generate the chart config",
+        text: JSON.stringify({
+          description: "Stockholm unicorns",
+          takeaway: "Only one",
+          type: "bar",
+          title: "Stockholm",
+          xKey: "company",
+          yKeys: ["company"],
+          legend: false,
+        }),
+      },
+    ]);
+
+    let recordedId: string | undefined;
+    for await (const event of runPipeline("Which unicorns are in Stockholm?")) {
+      if (event.type === "recorded") recordedId = event.id;
+    }
+
+    const [summary] = await searchQueryHistory("stockholm");
+    assert.equal(summary.id, recordedId);
+    assert.equal(summary.status, "success");
+    assert.equal(summary.rowCount, 1);
+    assert.equal(summary.sourceId, "fixture");
+    assert.equal(summary.chartConfig?.title, "Stockholm");
+    assert.ok(!("rows" in summary));
+    assert.deepEqual(await searchQueryHistory("no such question"), []);
+    assert.deepEqual((await getQueryHistoryEntry(summary.id)).rows, [{ company: "Klarna" }]);
+
+    setScriptedResponses([]);
+    const rerun = await rerunHistoryEntry(summary.id);
+    assert.notEqual(rerun.id, summary.id);
+    assert.deepEqual(rerun.rows, [{ company: "Klarna" }]);
+    assert.equal(rerun.chartConfig?.title, "Stockholm");
+    assert.equal(getScriptedCalls().length, 0);
+  });
+
+  it("keeps the rows of the newest runs only", async () => {
+    process.env.HISTORY_MAX_ENTRIES = "2";
+    try {
+      const runs = [];
+      for (const company of ["Stripe", "Klarna", "Canva"]) {
+        runs.push(
+          await recordRun({
+            question: `Is ${company} a unicorn?`,
+            sql: `SELECT company FROM unicorns WHERE company = '${company}'`,
+            sourceId: "fixture",
+            status: "success",
+            rowCount: 1,
+            durationMs: 1,
+            chartConfig: null,
+            fields: [],
+            rows: [{ company }],
+            truncated: false,
+          }),
+        );
+      }
+      const [stripe, klarna, canva] = runs;
+      assert.deepEqual(
+        (await searchHistory()).map(({ id }) => id),
+        [canva.id, klarna.id],
+      );
+      assert.equal(await getHistoryEntry(stripe.id), undefined);
+      assert.deepEqual((await getHistoryEntry(klarna.id))?.rows, [{ company: "Klarna" }]);
+      // Only the summaries are rewritten with every run
+      const history = fs.readFileSync(path.join(process.env.APP_DATA_DIR!, "history.json"), "utf8");
+      assert.doesNotMatch(history, /"rows"/);
+      assert.deepEqual(
+        fs.readdirSync(path.join(process.env.APP_DATA_DIR!, "history")).sort(),
+        [`${canva.id}.json`, `${klarna.id}.json`].sort(),
+      );
+    } finally {
+      delete process.env.HISTORY_MAX_ENTRIES;
+    }
+  });
+
+  it("saves a named query that runs again without the model", async () => {
+    const saved = await saveNamedQuery({
+      name: "Unicorns per country",
+      question: "How many unicorns are there in each country?",
+      sql: countByCountry + ";",
+      chartConfig: null,
+    });
+
+    assert.match(saved.id, /^[\w-]{12}$/);
+    assert.equal(saved.sourceId, "fixture");
+    assert.deepEqual(await getSavedQuery(saved.id), { ...saved, sql: countByCountry });
+
+    const result = await runGenerateSQLQuery(saved.sql, saved.sourceId);
+    assert.equal(result.rows.length, 5);
+    assert.equal(getScriptedCalls().length, 0);
+
+    await assert.rejects(
+      saveNamedQuery({ name: "Wipe", question: "", sql: "DELETE FROM unicorns", chartConfig: null }),
+      /failed safety checks/,
+    );
+    await assert.rejects(
+      saveNamedQuery({ name: " ", question: "", sql: countByCountry, chartConfig: null }),
+      /Give the query a name/,
+    );
+  });
+
+  it("keeps chart edits on a saved query", async () => {
+    const chartConfig = {
+      description: "Unicorns per country",
+      takeaway: "The United States leads",
+      type: "bar" as const,
+      title: "Unicorns by country",
+      xKey: "country",
+      yKeys: ["count"],
+      legend: false,
+    };
+    const saved = await saveNamedQuery({
+      name: "Unicorns per country",
+      question: "How many unicorns are there in each country?",
+      sql: countByCountry,
+      chartConfig,
+    });
+    const { fields } = await runGenerateSQLQuery(saved.sql, saved.sourceId);
+
+    const edited = {
+      ...chartConfig,
+      type: "line" as const,
+      title: "Unicorns, fewest first",
+      sortBy: { key: "count", direction: "asc" as const },
+      colors: { count: "hsl(var(--chart-3))" },
+      legend: true,
+    };
+    assert.deepEqual(validateChartConfig(edited, fields), { config: edited, issues: [] });
+    assert.deepEqual(validateChartConfig({ ...edited, yKeys: ["valuation"] }, fields).issues, [
+      'Y axis column "valuation" is not a column of the result',
+    ]);
+    assert.deepEqual(validateChartConfig({ ...edited, yKeys: [] }, fields).issues, [
+      "Pick at least one Y axis column",
+    ]);
+
+    await updateSavedQueryChart(saved.id, edited);
+    assert.deepEqual(await getSavedQuery(saved.id), { ...saved, chartConfig: edited });
+
+    await assert.rejects(
+      updateSavedQueryChart(saved.id, { ...edited, type: "radar" as "bar" }),
+      /Invalid enum value/,
+    );
+    await assert.rejects(
+      updateSavedQueryChart("missing", edited),
+      /This saved query no longer exists/,
+    );
+  });
+
+  it("pins charts to a dashboard and refreshes their data", async () => {
+    const chartConfig = {
+      description: "Unicorns per country",
+      takeaway: "The United States leads",
+      type: "bar" as const,
+      title: "Unicorns by country",
+      xKey: "country",
+      yKeys: ["count"],
+      legend: false,
+    };
+    const created = await pinChartToDashboard({
+      dashboardName: "Unicorn metrics",
+      question: "How many unicorns are there in each country?",
+      sql: countByCountry,
+      chartConfig,
+    });
+    const dashboard = await pinChartToDashboard({
+      dashboardId: created.id,
+      question: "Total valuation",
+      sql: "SELECT SUM(valuation)::int AS total FROM unicorns",
+      chartConfig: { ...chartConfig, title: "Total valuation", xKey: "total", yKeys: ["total"] },
+    });
+
+    assert.equal(dashboard.name, "Unicorn metrics");
+    assert.deepEqual(
+      dashboard.tiles.map((tile) => [tile.title, tile.width, tile.height, tile.refreshMinutes]),
+      [
+        ["Unicorns by country", 1, "md", null],
+        ["Total valuation", 1, "md", null],
+      ],
+    );
+
+    const [byCountry, total] = dashboard.tiles;
+    const result = await runDashboardTile(dashboard.id, byCountry.id);
+    assert.deepEqual(result.rows[0], { country: "United States", count: 6 });
+
+    const updated = await saveDashboardLayout(dashboard.id, [
+      { id: total.id, title: "Valuation", width: 2, height: "sm", refreshMinutes: 5 },
+    ]);
+    assert.equal(updated.tiles.length, 1);
+    assert.equal(updated.tiles[0].title, "Valuation");
+    assert.equal(updated.tiles[0].sql, total.sql);
+    assert.equal(updated.tiles[0].refreshMinutes, 5);
+    await assert.rejects(runDashboardTile(dashboard.id, byCountry.id), /no longer exists/);
+    assert.equal(getScriptedCalls().length, 0);
+  });
+});
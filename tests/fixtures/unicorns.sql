@@ -0,0 +1,28 @@
+-- A small slice of the unicorns dataset, shaped like the table lib/seed.ts builds
+CREATE TABLE unicorns (
+  id SERIAL PRIMARY KEY,
+  company VARCHAR(255) NOT NULL UNIQUE,
+  valuation DECIMAL(10, 2) NOT NULL,
+  date_joined DATE,
+  country VARCHAR(255) NOT NULL,
+  city VARCHAR(255) NOT NULL,
+  industry VARCHAR(255) NOT NULL,
+  select_investors TEXT NOT NULL
+);
+
+COMMENT ON TABLE unicorns IS 'Privately held startups valued at over $1B';
+COMMENT ON COLUMN unicorns.valuation IS 'Valuation in millions of USD';
+
+INSERT INTO unicorns (company, valuation, date_joined, country, city, industry, select_investors) VALUES
+  ('ByteDance', 180000, '2017-04-07', 'China', 'Beijing', 'Artificial intelligence', 'Sequoia Capital China, SIG Asia Investments, Sina Weibo, Softbank Group'),
+  ('SpaceX', 100000, '2012-12-01', 'United States', 'Hawthorne', 'Other', 'Founders Fund, Draper Fisher Jurvetson, Rothenberg Ventures'),
+  ('SHEIN', 100000, '2018-07-03', 'China', 'Shenzhen', 'E-commerce & direct-to-consumer', 'Tiger Global Management, Sequoia Capital China, Shunwei Capital Partners'),
+  ('Stripe', 95000, '2014-01-23', 'United States', 'San Francisco', 'Fintech', 'Khosla Ventures, LowercaseCapital, capitalG'),
+  ('Klarna', 45600, '2011-12-12', 'Sweden', 'Stockholm', 'Fintech', 'Institutional Venture Partners, Sequoia Capital, General Atlantic'),
+  ('Canva', 40000, '2018-01-08', 'Australia', 'Surry Hills', 'Internet software & services', 'Sequoia Capital China, Blackbird Ventures, Matrix Partners'),
+  ('Checkout.com', 40000, '2019-05-02', 'United Kingdom', 'London', 'Fintech', 'Tiger Global Management, Insight Partners, DST Global'),
+  ('Instacart', 39000, '2014-12-30', 'United States', 'San Francisco', 'Supply chain, logistics, & delivery', 'Khosla Ventures, Kleiner Perkins Caufield & Byers, Collaborative Fund'),
+  ('Databricks', 38000, '2019-02-05', 'United States', 'San Francisco', 'Data management & analytics', 'Andreessen Horowitz, New Enterprise Associates, Battery Ventures'),
+  ('Revolut', 33000, '2018-04-26', 'United Kingdom', 'London', 'Fintech', 'index Ventures, DST Global, Ribbit Capital'),
+  ('Epic Games', 31500, '2018-10-26', 'United States', 'Cary', 'Other', 'Tencent Holdings, KKR, Smash Ventures'),
+  ('Chime', 25000, '2019-03-05', 'United States', 'San Francisco', 'Fintech', 'Forerunner Ventures, Crosslink Capital, Homebrew');
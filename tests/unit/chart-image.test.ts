@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { chartToSvg, wrapText } from "@/lib/chart-image";
+import { toFileName } from "@/lib/export-formats";
+
+// Ten pixels a character, so a 100 pixel line holds ten
+const measure = (text: string) => text.length * 10;
+
+describe("chart image export", () => {
+  it("wraps the takeaway to the width of the chart", () => {
+    assert.deepEqual(wrapText("Fintech leads the list by a wide margin", 100, measure), [
+      "Fintech",
+      "leads the",
+      "list by a",
+      "wide",
+      "margin",
+    ]);
+    // A word wider than the line is not split
+    assert.deepEqual(wrapText("  Decacorns everywhere ", 50, measure), [
+      "Decacorns",
+      "everywhere",
+    ]);
+    assert.deepEqual(wrapText("", 100, measure), []);
+  });
+
+  it("names the image after the chart title", () => {
+    assert.equal(toFileName("Valuation by country (2024)", "chart"), "valuation-by-country-2024");
+    assert.equal(toFileName("", "chart"), "chart");
+  });
+
+  it("fails with a message when there is no chart to draw", () => {
+    // A container whose chart has not rendered
+    const container = { querySelector: () => null } as unknown as HTMLElement;
+    assert.throws(
+      () => chartToSvg(container, { title: "Valuation by country", takeaway: "" }),
+      /There is no chart to export/,
+    );
+  });
+});
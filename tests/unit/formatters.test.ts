@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { FormatContext, formatValue, linkFor, resolveFormat } from "@/lib/formatters";
+import { FieldKind, ResultField, ResultValue } from "@/lib/types";
+
+const field = (name: string, kind: FieldKind): ResultField => ({
+  name,
+  dataTypeID: 0,
+  typeName: kind,
+  kind,
+  nullable: true,
+});
+
+// Formats a value the way its column's type alone suggests
+const byKind = (value: ResultValue | undefined, kind: FieldKind, context?: FormatContext) =>
+  formatValue(value, resolveFormat(field("column", kind)), context);
+
+describe("column formatters", () => {
+  it("formats values by column type", () => {
+    assert.equal(byKind(1234567, "integer"), "1,234,567");
+    assert.equal(byKind(1234567, "integer", "axis"), "1.2M");
+    // Beyond 2^53, the digits are kept exactly
+    assert.equal(byKind("9007199254740993", "bigint"), "9,007,199,254,740,993");
+    assert.equal(byKind(true, "boolean"), "Yes");
+    assert.equal(byKind("false", "boolean"), "No");
+    // Dates without a time stay on their day in every time zone
+    assert.equal(byKind("2014-01-23", "date"), "Jan 23, 2014");
+    assert.equal(byKind("2014-01-23", "date", "axis"), "Jan 2014");
+    assert.equal(byKind("PT1H5M3S", "interval"), "1h 5m 3s");
+    assert.equal(byKind("P2DT4H30M", "interval", "axis"), "2d 4h");
+    assert.equal(byKind(["Sequoia", "Accel"], "array"), "Sequoia, Accel");
+    assert.equal(byKind({ round: "Series A" }, "json"), '{"round":"Series A"}');
+    assert.equal(byKind("Andreessen Horowitz, Sequoia", "text", "axis"), "Andreessen Horowitz…");
+  });
+
+  it("uses the format configured for a column over its type", () => {
+    const valuation = field("valuation", "number");
+    const formats = {
+      valuation: { type: "currency" as const, currency: "USD", scale: 1e6 },
+      share: { type: "percent" as const, ratio: true },
+    };
+    assert.equal(formatValue(95000, resolveFormat(valuation, formats)), "$95B");
+    assert.equal(formatValue(12.5, resolveFormat(valuation, {})), "12.5");
+    assert.equal(formatValue(0.256, resolveFormat(field("share", "number"), formats)), "25.6%");
+
+    const url = { type: "url" as const };
+    assert.equal(formatValue("https://stripe.com/about/", url), "https://stripe.com/about/");
+    assert.equal(formatValue("https://stripe.com/about/", url, "tooltip"), "stripe.com/about");
+    assert.equal(linkFor("https://stripe.com", url), "https://stripe.com/");
+  });
+
+  it("falls back to the plain value when a format does not apply", () => {
+    assert.equal(byKind(null, "integer"), "");
+    assert.equal(byKind(undefined, "date"), "");
+    assert.equal(formatValue("n/a", { type: "currency", currency: "USD" }), "n/a");
+    assert.equal(byKind("not a date", "date"), "not a date");
+    assert.equal(byKind("soon", "interval"), "soon");
+    assert.equal(byKind("maybe", "boolean"), "maybe");
+    assert.equal(formatValue({ a: 1 }, { type: "compact" }), '{"a":1}');
+    // Only web addresses become links
+    assert.equal(formatValue("ftp://example.com", { type: "url" }), "ftp://example.com");
+    assert.equal(linkFor("ftp://example.com", { type: "url" }), null);
+  });
+});